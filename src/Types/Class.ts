@@ -2,6 +2,9 @@ type Class = {
   id: number;
   name: string;
   color: string;
+  // COCO category written for this class; stays the same across exports
+  categoryId: number;
+  supercategory: string;
 };
 
-export type { Class };
\ No newline at end of file
+export type { Class };
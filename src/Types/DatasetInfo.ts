@@ -0,0 +1,18 @@
+type License = {
+  id: number;
+  name: string;
+  url: string;
+};
+
+// Describes the dataset in COCO exports; saved with the project
+type DatasetInfo = {
+  description: string;
+  contributor: string;
+  version: string;
+  url: string;
+  licenses: License[];
+  // License given to every exported image, if any
+  imageLicenseId: number | null;
+};
+
+export type { DatasetInfo, License };
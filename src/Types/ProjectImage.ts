@@ -0,0 +1,14 @@
+type ProjectImage = {
+  id: number;
+  name: string;
+  url: string;
+  width: number;
+  height: number;
+  // When the photo was taken ("YYYY-MM-DD HH:MM:SS"), from EXIF or else the
+  // file's modification time
+  capturedAt?: string;
+  // Id of the copy uploaded to the server, once saved there
+  remoteId?: number;
+};
+
+export type { ProjectImage };
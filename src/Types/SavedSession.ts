@@ -0,0 +1,39 @@
+import type { Class } from "~/Types/Class";
+import type { DatasetInfo } from "~/Types/DatasetInfo";
+
+// An annotation as stored between visits: its fabric object is kept as the
+// plain object produced by `toObject()`
+type SavedAnnotation = {
+  id: number;
+  type: "polygon" | "path" | "bbox";
+  classId: number | null;
+  object: Record<string, unknown>;
+};
+
+// Project image without its pixels, which are stored separately
+type SavedImage = {
+  id: number;
+  name: string;
+  width: number;
+  height: number;
+  capturedAt?: string;
+  remoteId?: number;
+};
+
+type SavedSession = {
+  id: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  classes: Class[];
+  // Missing in sessions saved before dataset settings existed
+  dataset?: DatasetInfo;
+  images: SavedImage[];
+  activeImageId: number | null;
+  // Server project the work is also saved to, if any
+  remoteProjectId?: number | null;
+  // Annotations of every image, keyed by project image id
+  annotations: Record<number, SavedAnnotation[]>;
+};
+
+export type { SavedAnnotation, SavedImage, SavedSession };
@@ -0,0 +1,22 @@
+import { readImageData } from "~/server/storage/fileStore";
+
+// Serves an uploaded project image so the canvas can load it by URL
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const image = await readImageData(Number(id));
+  if (!image) {
+    return new Response("Image not found", { status: 404 });
+  }
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      "Content-Type": image.mimeType,
+      // Browsers must not guess another type from the bytes
+      "X-Content-Type-Options": "nosniff",
+      // Uploaded images never change; a new upload gets a new id
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from "react";
 import ColorPicker from "~/components/ColorPicker/ColorPicker";
 import { type Class } from "~/Types/Class";
+import { type ProjectImage } from "~/Types/ProjectImage";
 import ClassPicker from "~/components/ClassPicker/ClassPicker";
 import {
   Dialog,
@@ -14,55 +15,162 @@ import {
 import { Input } from "~/components/ui/input";
 import { Button } from "~/components/ui/button";
 import toast, { Toaster } from "react-hot-toast";
-import Canvas from "~/components/Canvas/Canvas";
+import Canvas, {
+  type CanvasHandle,
+  type CanvasTool,
+  type ClassUsage,
+} from "~/components/Canvas/Canvas";
+import Filmstrip from "~/components/Filmstrip/Filmstrip";
+import SessionsDialog from "~/components/SessionsDialog/SessionsDialog";
+import ServerProjectsDialog from "~/components/ServerProjectsDialog/ServerProjectsDialog";
+import ValidationReportDialog from "~/components/ValidationReportDialog/ValidationReportDialog";
+import MaskExportDialog from "~/components/MaskExportDialog/MaskExportDialog";
+import ClassManagerDialog from "~/components/ClassManagerDialog/ClassManagerDialog";
+import DeleteClassDialog from "~/components/DeleteClassDialog/DeleteClassDialog";
+import CategoryRemapDialog from "~/components/CategoryRemapDialog/CategoryRemapDialog";
+import DatasetSettingsDialog from "~/components/DatasetSettingsDialog/DatasetSettingsDialog";
+import CommandPalette, {
+  type PaletteCommand,
+} from "~/components/CommandPalette/CommandPalette";
+import HotkeySettingsDialog from "~/components/HotkeySettingsDialog/HotkeySettingsDialog";
+import { type DatasetInfo } from "~/Types/DatasetInfo";
+import { createDefaultDataset } from "~/utils/datasetUtils";
+import { api, UNBATCHED } from "~/trpc/react";
+import { type SavedSession } from "~/Types/SavedSession";
 import { generateRandomId } from "~/utils/uuid";
+import {
+  imageUrlToDataURL,
+  loadProjectImage,
+  replaceExtension,
+  sortImageFiles,
+} from "~/utils/imageUtils";
+import {
+  deleteSession,
+  describeSession,
+  enforceStorageQuota,
+  listSessions,
+  loadSessionImages,
+  saveSession,
+} from "~/utils/sessionStore";
+import {
+  type BrushExportMode,
+  type COCOImportData,
+  type HoleExportMode,
+  downloadFile,
+  downloadJSONData,
+} from "~/utils/COCOUtils";
+import {
+  buildVOCDocument,
+  parseVOCDocument,
+  vocToCOCO,
+} from "~/utils/VOCUtils";
+import { buildYOLODataset, type YOLOTask } from "~/utils/YOLOUtils";
+import { createZip } from "~/utils/zipUtils";
+import { buildMaskFiles, type MaskOptions } from "~/utils/maskUtils";
+import { cocoSchema, type COCOValidationIssue } from "~/utils/COCOSchema";
+import {
+  type CategoryRemap,
+  DEFAULT_SUPERCATEGORY,
+  applyCategoryRemap,
+  buildTaxonomy,
+  findCategoryIdCollisions,
+  mergeTaxonomy,
+  nextCategoryId,
+  parseTaxonomy,
+  resolveCategoryClasses,
+  withCategoryIds,
+} from "~/utils/classUtils";
+import {
+  HOTKEY_LABELS,
+  type HotkeyAction,
+  type HotkeyBindings,
+  eventToBinding,
+  findHotkeyAction,
+  formatBindings,
+  keyBelongsToTarget,
+  loadHotkeys,
+  saveHotkeys,
+} from "~/utils/hotkeys";
 
 import {
   FaUpload,
+  FaFolderOpen,
   FaPaintBrush,
   FaDrawPolygon,
+  FaCircleNotch,
   FaEraser,
   FaUndo,
+  FaRedo,
   FaDownload,
+  FaFileImport,
   FaChevronRight,
+  FaList,
+  FaMousePointer,
+  FaVectorSquare,
+  FaHistory,
+  FaCog,
+  FaListUl,
+  FaCloudUploadAlt,
+  FaCloudDownloadAlt,
+  FaKeyboard,
 } from "react-icons/fa";
 
+// Quiet time after the last change before the project is saved
+const AUTOSAVE_DELAY = 1000;
+const MIN_BRUSH_SIZE = 1;
+const MAX_BRUSH_SIZE = 50;
+const BRUSH_SIZE_STEP = 2;
+
 // Initial classes
 const initialClasses: Class[] = [
   {
     id: generateRandomId(),
     name: "Car",
     color: "#FF0000",
+    categoryId: 1,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
   {
     id: generateRandomId(),
     name: "Tree",
     color: "#00FF00",
+    categoryId: 2,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
   {
     id: generateRandomId(),
     name: "Road",
     color: "#0000FF",
+    categoryId: 3,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
   {
     id: generateRandomId(),
     name: "Bicycle",
     color: "#800080",
+    categoryId: 4,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
   {
     id: generateRandomId(),
     name: "Sky",
     color: "#87CEEB",
+    categoryId: 5,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
   {
     id: generateRandomId(),
     name: "Sidewalk",
     color: "#808082",
+    categoryId: 6,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
   {
     id: generateRandomId(),
     name: "Traffic Light",
     color: "#FFA500",
+    categoryId: 7,
+    supercategory: DEFAULT_SUPERCATEGORY,
   },
 ];
 
@@ -78,7 +186,7 @@ const getInitialClasses = (): Class[] => {
   try {
     const parsed = JSON.parse(savedClasses) as Class[];
     if (!Array.isArray(parsed)) return initialClasses;
-    return parsed;
+    return withCategoryIds(parsed);
   } catch {
     return initialClasses;
   }
@@ -88,20 +196,66 @@ export default function Home() {
   // State for collapsible sidebar
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
-  const [tool, setTool] = useState<"brush" | "polygon" | null>(null);
+  const [tool, setTool] = useState<CanvasTool | null>(null);
   const [brushSize, setBrushSize] = useState(10);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [images, setImages] = useState<ProjectImage[]>([]);
+  const [activeImageId, setActiveImageId] = useState<number | null>(null);
   const [newClassName, setNewClassName] = useState<string>("");
   const [newClassColor, setNewClassColor] = useState<string>("#ff0000");
+  // Empty until edited: the next free id is suggested
+  const [newClassCategoryId, setNewClassCategoryId] = useState<string>("");
+  const [newClassSupercategory, setNewClassSupercategory] = useState<string>(
+    DEFAULT_SUPERCATEGORY,
+  );
   const [classes, setClasses] = useState<Class[]>(() => getInitialClasses());
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isClassManagerOpen, setIsClassManagerOpen] = useState(false);
+  // Class waiting for the choice of what happens to its annotations
+  const [classToDelete, setClassToDelete] = useState<{
+    cls: Class;
+    usage: ClassUsage;
+  } | null>(null);
+  // Category ids of an imported file that differ from the project's
+  const [pendingRemap, setPendingRemap] = useState<CategoryRemap[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<{
-    undo: () => void;
-    exportToCOCO: () => void;
-    toggleAnnotationsView: () => void;
-  }>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const cocoInputRef = useRef<HTMLInputElement>(null);
+  const vocInputRef = useRef<HTMLInputElement>(null);
+  const classesInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<CanvasHandle>(null);
+  // The saved session the project is written to, once it has images
+  const [sessionInfo, setSessionInfo] = useState<{
+    id: number;
+    createdAt: number;
+  } | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const [isSessionsDialogOpen, setIsSessionsDialogOpen] = useState(false);
+  // Bumped by the canvas on every annotation change to trigger autosave
+  const [annotationVersion, setAnnotationVersion] = useState(0);
+  // Server project the work is saved to, once saved or opened from there
+  const [remoteProjectId, setRemoteProjectId] = useState<number | null>(null);
+  const [isServerDialogOpen, setIsServerDialogOpen] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isMaskDialogOpen, setIsMaskDialogOpen] = useState(false);
+  const [isExportingMasks, setIsExportingMasks] = useState(false);
+  // Dataset description written into COCO exports
+  const [dataset, setDataset] = useState<DatasetInfo>(createDefaultDataset);
+  const [isDatasetDialogOpen, setIsDatasetDialogOpen] = useState(false);
+  // Keyboard shortcuts of this browser's user
+  const [hotkeys, setHotkeys] = useState<HotkeyBindings>(loadHotkeys);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isHotkeyDialogOpen, setIsHotkeyDialogOpen] = useState(false);
+  const [brushExportMode, setBrushExportMode] =
+    useState<BrushExportMode>("rle");
+  const [holeExportMode, setHoleExportMode] =
+    useState<HoleExportMode>("polygon");
+  // Problems found by the server in a COCO file being exported or imported
+  const [validationReport, setValidationReport] = useState<{
+    title: string;
+    issues: COCOValidationIssue[];
+  } | null>(null);
+  const trpcUtils = api.useUtils();
 
   // Sync with localStorage when classes change
   useEffect(() => {
@@ -112,23 +266,608 @@ export default function Home() {
     return () => window.removeEventListener("storage", handleStorageChange);
   }, []);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const dataUrl = e.target?.result as string;
-        setImageUrl(dataUrl);
+  // Keyboard shortcuts; the listener is added once and calls the handler of
+  // the latest render, which sees the current bindings and state
+  const hotkeyHandlerRef = useRef<(event: KeyboardEvent) => void>();
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) =>
+      hotkeyHandlerRef.current?.(event);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Offer to resume earlier work on startup
+  useEffect(() => {
+    listSessions()
+      .then((sessions) => {
+        setSavedSessions(sessions);
+        if (sessions.length > 0) setIsSessionsDialogOpen(true);
+      })
+      .catch((error) => console.error("Error reading saved sessions:", error));
+  }, []);
+
+  // Autosave: every change restarts the timer, so the project is written
+  // once editing pauses
+  useEffect(() => {
+    if (!sessionInfo || images.length === 0) return;
+    const timeoutId = setTimeout(() => {
+      const session: SavedSession = {
+        id: sessionInfo.id,
+        name: describeSession(images),
+        createdAt: sessionInfo.createdAt,
+        updatedAt: Date.now(),
+        classes,
+        dataset,
+        images: images.map(
+          ({ id, name, width, height, capturedAt, remoteId }) => ({
+            id,
+            name,
+            width,
+            height,
+            capturedAt,
+            remoteId,
+          }),
+        ),
+        activeImageId,
+        remoteProjectId,
+        annotations: canvasRef.current?.serializeAnnotations() ?? {},
       };
-      reader.readAsDataURL(file);
+      saveSession(session, images)
+        .then(() => enforceStorageQuota(session.id))
+        .catch((error) => {
+          console.error("Error saving session:", error);
+          toast.error("Autosave failed");
+        });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [
+    sessionInfo,
+    images,
+    classes,
+    dataset,
+    activeImageId,
+    remoteProjectId,
+    annotationVersion,
+  ]);
+
+  // "webkitdirectory" is not part of React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const handleFileUpload = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = sortImageFiles(Array.from(event.target.files ?? []));
+    // Allow picking the same files again later
+    event.target.value = "";
+    if (files.length === 0) {
+      toast.error("No images found in the selection");
+      return;
     }
+
+    const results = await Promise.allSettled(files.map(loadProjectImage));
+    const loaded = results
+      .filter(
+        (result): result is PromiseFulfilledResult<ProjectImage> =>
+          result.status === "fulfilled",
+      )
+      .map((result) => result.value);
+    const failed = results.length - loaded.length;
+    if (failed > 0) {
+      toast.error(`${failed} file(s) could not be read as images`);
+    }
+    if (loaded.length === 0) return;
+
+    setImages((prevImages) => [...prevImages, ...loaded]);
+    setSessionInfo(
+      (prev) => prev ?? { id: generateRandomId(), createdAt: Date.now() },
+    );
+    // Keep working on the current image, or open the first new one
+    setActiveImageId((prevId) => prevId ?? loaded[0]?.id ?? null);
+    toast.success(`${loaded.length} image(s) added to the project`);
   };
 
-  const handleExport = () => {
-    if (canvasRef.current) {
-      canvasRef.current.exportToCOCO();
-    } else {
+  const openSessionsDialog = async () => {
+    try {
+      setSavedSessions(await listSessions());
+    } catch (error) {
+      console.error("Error reading saved sessions:", error);
+    }
+    setIsSessionsDialogOpen(true);
+  };
+
+  const handleResumeSession = async (session: SavedSession) => {
+    if (!canvasRef.current) return;
+    try {
+      const restoredImages = await loadSessionImages(session);
+      if (restoredImages.length === 0) {
+        toast.error("The images of this session are no longer stored");
+        return;
+      }
+      const restoredClasses =
+        session.classes.length > 0 ? withCategoryIds(session.classes) : classes;
+      await canvasRef.current.restoreProject(
+        restoredImages,
+        session.annotations,
+        restoredClasses,
+      );
+      setClasses(restoredClasses);
+      localStorage.setItem("classes", JSON.stringify(restoredClasses));
+      setSelectedClass(null);
+      setImages(restoredImages);
+      setActiveImageId(
+        restoredImages.find((img) => img.id === session.activeImageId)?.id ??
+          restoredImages[0]?.id ??
+          null,
+      );
+      setSessionInfo({ id: session.id, createdAt: session.createdAt });
+      setRemoteProjectId(session.remoteProjectId ?? null);
+      setDataset(session.dataset ?? createDefaultDataset());
+      setIsSessionsDialogOpen(false);
+      toast.success(`Resumed "${session.name}"`);
+    } catch (error) {
+      console.error("Error restoring session:", error);
+      toast.error("The saved session could not be restored");
+    }
+  };
+
+  const handleDeleteSession = async (session: SavedSession) => {
+    try {
+      await deleteSession(session.id);
+      setSavedSessions((prev) => prev.filter((item) => item.id !== session.id));
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      toast.error("The session could not be deleted");
+    }
+  };
+
+  // Uploads the images the server does not have yet, then replaces the
+  // server annotations of every image with the ones on the canvas
+  const handleSaveToServer = async () => {
+    if (!canvasRef.current) return;
+    if (images.length === 0) {
+      toast.error("Please upload an image before saving");
+      return;
+    }
+    setIsSyncing(true);
+    try {
+      const client = trpcUtils.client;
+      const name = describeSession(images);
+      const projectId =
+        remoteProjectId === null
+          ? (await client.projects.create.mutate({ name, classes, dataset })).id
+          : (
+              await client.projects.update.mutate({
+                id: remoteProjectId,
+                name,
+                classes,
+                dataset,
+              })
+            ).id;
+
+      // Images of an earlier save whose server id was lost (e.g. with a
+      // reload) are recognised by name and size instead of sent again
+      const serverImages =
+        remoteProjectId === null
+          ? []
+          : await client.images.list.query({ projectId });
+      const remoteIds = new Map<number, number>();
+      const failed: string[] = [];
+      // One image at a time, each in a request of its own, so that only one
+      // encoded copy is held in memory
+      for (const image of images) {
+        const known =
+          image.remoteId ??
+          serverImages.find(
+            (stored) =>
+              stored.name === image.name &&
+              stored.width === image.width &&
+              stored.height === image.height &&
+              ![...remoteIds.values()].includes(stored.id),
+          )?.id;
+        if (known !== undefined) {
+          remoteIds.set(image.id, known);
+          continue;
+        }
+        try {
+          const created = await client.images.create.mutate(
+            {
+              projectId,
+              name: image.name,
+              width: image.width,
+              height: image.height,
+              capturedAt: image.capturedAt,
+              dataUrl: await imageUrlToDataURL(image.url),
+            },
+            { context: UNBATCHED },
+          );
+          remoteIds.set(image.id, created.id);
+        } catch (error) {
+          console.error(`Error uploading ${image.name}:`, error);
+          failed.push(image.name);
+        }
+      }
+      // Kept even when some uploads failed, so that saving again only sends
+      // the missing images
+      setImages((prev) =>
+        prev.map((image) => ({
+          ...image,
+          remoteId: image.remoteId ?? remoteIds.get(image.id),
+        })),
+      );
+      setRemoteProjectId(projectId);
+
+      // Images never opened here have no annotations of ours to save
+      const annotations = canvasRef.current.serializeAnnotations();
+      await Promise.all(
+        images.flatMap((image) => {
+          const remoteId = remoteIds.get(image.id);
+          const imageAnnotations = annotations[image.id];
+          return remoteId !== undefined && imageAnnotations
+            ? [
+                client.annotations.replace.mutate({
+                  imageId: remoteId,
+                  annotations: imageAnnotations,
+                }),
+              ]
+            : [];
+        }),
+      );
+
+      if (failed.length > 0) {
+        toast.error(
+          `Saved ${images.length - failed.length} of ${images.length} image(s). Not uploaded: ${failed.join(", ")}. Save again to retry.`,
+        );
+      } else {
+        toast.success("Project saved to the server");
+      }
+    } catch (error) {
+      console.error("Error saving to the server:", error);
+      toast.error("The project could not be saved to the server");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleOpenFromServer = async (projectId: number) => {
+    if (!canvasRef.current) return;
+    setIsSyncing(true);
+    try {
+      const client = trpcUtils.client;
+      const project = await client.projects.get.query({ id: projectId });
+      const projectImages: ProjectImage[] = project.images.map((image) => ({
+        id: image.id,
+        remoteId: image.id,
+        name: image.name,
+        url: `/api/images/${image.id}`,
+        width: image.width,
+        height: image.height,
+        capturedAt: image.capturedAt,
+      }));
+      const annotations = Object.fromEntries(
+        await Promise.all(
+          project.images.map(
+            async (image) =>
+              [
+                image.id,
+                await client.annotations.list.query({ imageId: image.id }),
+              ] as const,
+          ),
+        ),
+      );
+
+      const projectClasses = withCategoryIds(project.classes);
+      await canvasRef.current.restoreProject(
+        projectImages,
+        annotations,
+        projectClasses,
+      );
+      setClasses(projectClasses);
+      localStorage.setItem("classes", JSON.stringify(projectClasses));
+      setSelectedClass(null);
+      setImages(projectImages);
+      setActiveImageId(projectImages[0]?.id ?? null);
+      setRemoteProjectId(project.id);
+      setDataset(project.dataset ?? createDefaultDataset());
+      // Local autosave keeps a separate copy of the opened project
+      setSessionInfo({ id: generateRandomId(), createdAt: Date.now() });
+      setIsServerDialogOpen(false);
+      toast.success(`Opened "${project.name}" from the server`);
+    } catch (error) {
+      console.error("Error opening from the server:", error);
+      toast.error("The project could not be opened from the server");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!canvasRef.current) {
       console.error("Canvas reference is not available.");
+      return;
+    }
+    const collisions = findCategoryIdCollisions(classes);
+    if (collisions.size > 0) {
+      toast.error(
+        `Several classes share category id(s) ${[...collisions.keys()].join(", ")}`,
+      );
+      setIsClassManagerOpen(true);
+      return;
+    }
+    const cocoData = canvasRef.current.getCOCOData(
+      brushExportMode,
+      holeExportMode,
+      dataset,
+    );
+    if (!cocoData) return;
+
+    try {
+      const result =
+        await trpcUtils.client.validation.validateCOCO.mutate(cocoData);
+      if (!result.valid) {
+        setValidationReport({
+          title: "The export has problems",
+          issues: result.issues,
+        });
+        return;
+      }
+    } catch (error) {
+      console.error("Error validating the export:", error);
+      toast.error("The COCO data could not be validated");
+      return;
+    }
+    toast.success("COCO data is valid");
+    downloadJSONData(cocoData, "annotations.json");
+  };
+
+  const handleImportCOCO = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again after fixing it
+    event.target.value = "";
+    if (!file || !canvasRef.current) return;
+    if (images.length === 0) {
+      toast.error("Please upload the images before importing annotations");
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      toast.error("The selected file is not valid JSON");
+      return;
+    }
+
+    try {
+      const result =
+        await trpcUtils.client.validation.validateCOCO.mutate(json);
+      if (!result.valid) {
+        setValidationReport({
+          title: `${file.name} is not a valid COCO file`,
+          issues: result.issues,
+        });
+        return;
+      }
+    } catch (error) {
+      console.error("Error validating the COCO file:", error);
+      toast.error("The COCO file could not be validated");
+      return;
+    }
+    // Cannot fail once the server accepted the file; gives the typed data
+    const parsed = cocoSchema.safeParse(json);
+    if (!parsed.success) return;
+    await importAnnotations(parsed.data);
+  };
+
+  // One XML file per opened image, in the Annotations folder of one zip
+  const handleExportVOC = () => {
+    const annotatedImages = canvasRef.current?.getAnnotatedImages();
+    if (!annotatedImages) return;
+
+    let skipped = 0;
+    const files = annotatedImages.map((annotated) => {
+      const voc = buildVOCDocument(annotated);
+      skipped += voc.skipped;
+      return {
+        name: `Annotations/${replaceExtension(annotated.image.name, "xml")}`,
+        data: voc.xml,
+      };
+    });
+    downloadFile(createZip(files), "voc.zip", "application/zip");
+    if (skipped > 0) {
+      toast.error(`${skipped} annotation(s) without a class were left out`);
+    }
+    toast.success(`Exported ${annotatedImages.length} VOC file(s)`);
+  };
+
+  // Label files of every opened image plus data.yaml, in one zip
+  const handleExportYOLO = (task: YOLOTask) => {
+    const annotatedImages = canvasRef.current?.getAnnotatedImages();
+    if (!annotatedImages) return;
+    if (classes.length === 0) {
+      toast.error("Please add a class before exporting to YOLO");
+      return;
+    }
+
+    const { files, skipped } = buildYOLODataset(annotatedImages, classes, task);
+    downloadFile(createZip(files), `yolo-${task}.zip`, "application/zip");
+    if (skipped > 0) {
+      toast.error(`${skipped} annotation(s) without a class were left out`);
+    }
+    toast.success(`Exported ${annotatedImages.length} YOLO label file(s)`);
+  };
+
+  const handleExportMasks = async (options: MaskOptions) => {
+    const annotatedImages = canvasRef.current?.getAnnotatedImages();
+    if (!annotatedImages) return;
+    if (classes.length === 0) {
+      toast.error("Please add a class before exporting masks");
+      return;
+    }
+
+    setIsExportingMasks(true);
+    try {
+      const { files, skipped } = await buildMaskFiles(
+        annotatedImages,
+        classes,
+        options,
+      );
+      downloadFile(createZip(files), "masks.zip", "application/zip");
+      if (skipped > 0) {
+        toast.error(`${skipped} annotation(s) without a class were left out`);
+      }
+      toast.success(`Exported masks of ${annotatedImages.length} image(s)`);
+      setIsMaskDialogOpen(false);
+    } catch (error) {
+      console.error("Error exporting masks:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "The masks could not be exported",
+      );
+    } finally {
+      setIsExportingMasks(false);
+    }
+  };
+
+  const handleImportVOC = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow importing the same files again after fixing them
+    event.target.value = "";
+    if (files.length === 0 || !canvasRef.current) return;
+    if (images.length === 0) {
+      toast.error("Please upload the images before importing annotations");
+      return;
+    }
+
+    const documents = [];
+    for (const file of files) {
+      try {
+        documents.push(parseVOCDocument(await file.text()));
+      } catch (error) {
+        toast.error(
+          `${file.name}: ${error instanceof Error ? error.message : "invalid file"}`,
+        );
+      }
+    }
+    if (documents.length === 0) return;
+    // VOC files have no category ids of their own
+    await importAnnotations(vocToCOCO(documents), false);
+  };
+
+  // Creates the classes an import needs and adds its annotations. When the
+  // file has category ids, differing ones are offered as a remap.
+  const importAnnotations = async (data: COCOImportData, keepIds = true) => {
+    if (!canvasRef.current) return;
+    const {
+      classes: updatedClasses,
+      created,
+      categoryToClass,
+      remap,
+    } = resolveCategoryClasses(data.categories, classes, keepIds);
+    if (created.length > 0) {
+      setClasses(updatedClasses);
+      localStorage.setItem("classes", JSON.stringify(updatedClasses));
+      toast.success(
+        `Created class(es): ${created.map((cls) => cls.name).join(", ")}`,
+      );
+    }
+
+    const result = await canvasRef.current.importFromCOCO(
+      data,
+      categoryToClass,
+    );
+    if (result.unmatchedImages.length > 0) {
+      toast.error(
+        `No project image named: ${result.unmatchedImages.join(", ")}`,
+      );
+    }
+    if (result.skipped > 0) {
+      toast.error(`${result.skipped} annotation(s) could not be imported`);
+    }
+    toast.success(`Imported ${result.imported} annotation(s)`);
+    setPendingRemap(remap);
+  };
+
+  const handleApplyRemap = () => {
+    const { classes: remapped, changes } = applyCategoryRemap(
+      classes,
+      pendingRemap,
+    );
+    commitClasses(remapped);
+    setPendingRemap([]);
+    toast.success(`Changed the category id of ${changes.length} class(es)`);
+  };
+
+  // Stores edited classes; the selected class follows its edits
+  const commitClasses = (updated: Class[]) => {
+    setClasses(updated);
+    localStorage.setItem("classes", JSON.stringify(updated));
+    setSelectedClass(
+      (prev) => updated.find((cls) => cls.id === prev?.id) ?? null,
+    );
+  };
+
+  const handleSaveClasses = (updated: Class[]) => {
+    commitClasses(updated);
+    setIsClassManagerOpen(false);
+    toast.success("Classes saved");
+  };
+
+  const handleRequestDeleteClass = (cls: Class) => {
+    const usage = canvasRef.current?.countClassUsage(cls.id) ?? {
+      annotations: 0,
+      images: 0,
+    };
+    setClassToDelete({ cls, usage });
+  };
+
+  const handleDeleteClass = (replacement: Class | null) => {
+    if (!classToDelete) return;
+    const { cls } = classToDelete;
+    const affected = canvasRef.current?.removeClass(cls.id, replacement) ?? 0;
+    commitClasses(classes.filter((item) => item.id !== cls.id));
+    setClassToDelete(null);
+    toast.success(
+      affected === 0
+        ? `Deleted class "${cls.name}"`
+        : replacement
+          ? `Deleted class "${cls.name}" and moved ${affected} annotation(s) to "${replacement.name}"`
+          : `Deleted class "${cls.name}" and ${affected} annotation(s)`,
+    );
+  };
+
+  const handleExportClasses = () => {
+    downloadJSONData(buildTaxonomy(classes), "classes.json");
+  };
+
+  const handleImportClasses = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const taxonomy = parseTaxonomy(JSON.parse(await file.text()));
+      const { classes: merged, created } = mergeTaxonomy(classes, taxonomy);
+      commitClasses(merged);
+      toast.success(
+        `Imported ${taxonomy.classes.length} class(es), ${created.length} new`,
+      );
+    } catch (error) {
+      console.error("Error importing classes:", error);
+      toast.error(
+        error instanceof SyntaxError
+          ? "The selected file is not valid JSON"
+          : error instanceof Error
+            ? error.message
+            : "The classes could not be imported",
+      );
     }
   };
 
@@ -151,11 +890,28 @@ export default function Home() {
       toast.error("Class name already exists");
       return;
     }
+    const categoryId =
+      newClassCategoryId === ""
+        ? nextCategoryId(classes)
+        : Number(newClassCategoryId);
+    if (!Number.isInteger(categoryId) || categoryId < 1) {
+      toast.error("Category id must be a whole number from 1");
+      return;
+    }
+    const categoryOwner = classes.find((c) => c.categoryId === categoryId);
+    if (categoryOwner) {
+      toast.error(
+        `Category id ${categoryId} is already used by "${categoryOwner.name}"`,
+      );
+      return;
+    }
 
     const newClass: Class = {
       id: generateRandomId(),
       name: newClassName,
       color: newClassColor,
+      categoryId,
+      supercategory: newClassSupercategory || DEFAULT_SUPERCATEGORY,
     };
 
     const updatedClasses = [...classes, newClass];
@@ -163,6 +919,8 @@ export default function Home() {
     localStorage.setItem("classes", JSON.stringify(updatedClasses));
     setNewClassName("");
     setNewClassColor("#ff0000");
+    setNewClassCategoryId("");
+    setNewClassSupercategory(DEFAULT_SUPERCATEGORY);
     setIsDialogOpen(false);
     toast.success(`Class "${newClassName}" added successfully!`);
   };
@@ -173,14 +931,192 @@ export default function Home() {
     }
   };
 
-  const handleSetTool = (toolType: "brush" | "polygon") => {
-    if ((toolType === "polygon" || toolType === "brush") && !selectedClass) {
+  const redo = () => {
+    if (canvasRef.current) {
+      canvasRef.current.redo();
+    }
+  };
+
+  const handleSetTool = (toolType: CanvasTool) => {
+    if (
+      (toolType === "polygon" || toolType === "brush" || toolType === "bbox") &&
+      !selectedClass
+    ) {
       toast.error(`Please select a class before using the ${toolType} tool`);
       return;
     }
     setTool(toolType);
   };
 
+  const runHotkey = (action: HotkeyAction) => {
+    switch (action) {
+      case "tool.brush":
+        return handleSetTool("brush");
+      case "tool.polygon":
+        return handleSetTool("polygon");
+      case "tool.hole":
+        return handleSetTool("hole");
+      case "tool.bbox":
+        return handleSetTool("bbox");
+      case "tool.eraser":
+        return handleSetTool("eraser");
+      case "tool.edit":
+        return handleSetTool("edit");
+      case "undo":
+        return undo();
+      case "redo":
+        return redo();
+      case "toggleAnnotations":
+        return canvasRef.current?.toggleAnnotationsView();
+      case "exportCOCO":
+        return void handleExport();
+      case "deleteSelection":
+        return canvasRef.current?.deleteSelection();
+      case "finishPolygon":
+        return canvasRef.current?.finishPolygon();
+      case "cancelPolygon":
+        return canvasRef.current?.cancelPolygon();
+      case "brushSmaller":
+        return setBrushSize((size) =>
+          Math.max(MIN_BRUSH_SIZE, size - BRUSH_SIZE_STEP),
+        );
+      case "brushLarger":
+        return setBrushSize((size) =>
+          Math.min(MAX_BRUSH_SIZE, size + BRUSH_SIZE_STEP),
+        );
+      case "commandPalette":
+        return setIsPaletteOpen(true);
+    }
+  };
+
+  const handleHotkey = (event: KeyboardEvent) => {
+    if (keyBelongsToTarget(event)) return;
+
+    const binding = eventToBinding(event);
+    if (!binding) return;
+    const action = findHotkeyAction(hotkeys, binding);
+    if (action) {
+      event.preventDefault();
+      runHotkey(action);
+      return;
+    }
+    // 1-9 pick the classes in the order of the list
+    if (/^[1-9]$/.test(binding)) {
+      const cls = classes[Number(binding) - 1];
+      if (cls) setSelectedClass(cls);
+    }
+  };
+
+  useEffect(() => {
+    hotkeyHandlerRef.current = handleHotkey;
+  });
+
+  const selectClassCommands = classes.map(
+    (cls, index): PaletteCommand => ({
+      id: `class.${cls.id}`,
+      label: `Select class: ${cls.name}`,
+      shortcut: index < 9 ? String(index + 1) : undefined,
+      run: () => setSelectedClass(cls),
+    }),
+  );
+
+  const paletteCommands: PaletteCommand[] = [
+    ...(Object.keys(HOTKEY_LABELS) as HotkeyAction[])
+      .filter((action) => action !== "commandPalette")
+      .map((action) => ({
+        id: action,
+        label: HOTKEY_LABELS[action],
+        shortcut: formatBindings(hotkeys[action]),
+        run: () => runHotkey(action),
+      })),
+    ...selectClassCommands,
+    {
+      id: "exportVOC",
+      label: "Export VOC",
+      run: handleExportVOC,
+    },
+    {
+      id: "exportYOLO.detect",
+      label: "Export YOLO (boxes)",
+      run: () => handleExportYOLO("detect"),
+    },
+    {
+      id: "exportYOLO.segment",
+      label: "Export YOLO (polygons)",
+      run: () => handleExportYOLO("segment"),
+    },
+    {
+      id: "exportMasks",
+      label: "Export masks",
+      run: () => setIsMaskDialogOpen(true),
+    },
+    {
+      id: "importCOCO",
+      label: "Import COCO",
+      run: () => cocoInputRef.current?.click(),
+    },
+    {
+      id: "importVOC",
+      label: "Import VOC",
+      run: () => vocInputRef.current?.click(),
+    },
+    {
+      id: "uploadImages",
+      label: "Upload images",
+      run: () => fileInputRef.current?.click(),
+    },
+    {
+      id: "uploadFolder",
+      label: "Upload folder",
+      run: () => folderInputRef.current?.click(),
+    },
+    {
+      id: "addClass",
+      label: "Add class",
+      run: () => setIsDialogOpen(true),
+    },
+    {
+      id: "manageClasses",
+      label: "Manage classes",
+      run: () => setIsClassManagerOpen(true),
+    },
+    {
+      id: "exportClasses",
+      label: "Export classes",
+      run: handleExportClasses,
+    },
+    {
+      id: "importClasses",
+      label: "Import classes",
+      run: () => classesInputRef.current?.click(),
+    },
+    {
+      id: "datasetSettings",
+      label: "Dataset settings",
+      run: () => setIsDatasetDialogOpen(true),
+    },
+    {
+      id: "sessions",
+      label: "Saved sessions",
+      run: () => void openSessionsDialog(),
+    },
+    {
+      id: "saveToServer",
+      label: "Save to server",
+      run: () => void handleSaveToServer(),
+    },
+    {
+      id: "openFromServer",
+      label: "Open from server",
+      run: () => setIsServerDialogOpen(true),
+    },
+    {
+      id: "hotkeys",
+      label: "Keyboard shortcuts",
+      run: () => setIsHotkeyDialogOpen(true),
+    },
+  ];
+
   const buttonClass = (isActive: boolean) => `
     w-full flex items-center justify-center rounded text-xs md:text-sm h-7 md:h-10
     ${isActive ? "bg-black text-white" : "bg-gray-300 text-black"} 
@@ -203,7 +1139,7 @@ export default function Home() {
 
       <div className="flex flex-1 overflow-hidden">
         <div
-          className={`absolute top-0 z-40 flex h-full flex-col bg-white p-4 shadow-2xl transition-transform duration-300 overflow-y-auto md:relative ${isSidebarOpen ? "w-64 translate-x-0" : "w-64 -translate-x-full md:w-64 md:translate-x-0"} `}
+          className={`absolute top-0 z-40 flex h-full flex-col overflow-y-auto bg-white p-4 shadow-2xl transition-transform duration-300 md:relative ${isSidebarOpen ? "w-64 translate-x-0" : "w-64 -translate-x-full md:w-64 md:translate-x-0"} `}
         >
           {/* Hide the sidebar close button on larger screens */}
           <button
@@ -214,7 +1150,9 @@ export default function Home() {
           </button>
 
           <div className="flex-1 overflow-y-auto">
-            <h2 className="mt-0 mb-4 text-sm text-xs font-bold md:text-lg">Classes</h2>
+            <h2 className="mb-4 mt-0 text-sm text-xs font-bold md:text-lg">
+              Classes
+            </h2>
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
                 <Button
@@ -228,7 +1166,7 @@ export default function Home() {
                 <DialogHeader>
                   <DialogTitle>Add New Class</DialogTitle>
                 </DialogHeader>
-                <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto">
+                <div className="grid max-h-[60vh] gap-4 overflow-y-auto py-4">
                   <div className="grid gap-2">
                     <label htmlFor="name">Class Name</label>
                     <Input
@@ -254,10 +1192,82 @@ export default function Home() {
                       />
                     </div>
                   </div>
+                  <div className="grid gap-2">
+                    <label htmlFor="categoryId">COCO Category ID</label>
+                    <Input
+                      id="categoryId"
+                      type="number"
+                      min={1}
+                      value={newClassCategoryId}
+                      onChange={(e) => setNewClassCategoryId(e.target.value)}
+                      placeholder={String(nextCategoryId(classes))}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <label htmlFor="supercategory">Supercategory</label>
+                    <Input
+                      id="supercategory"
+                      value={newClassSupercategory}
+                      onChange={(e) => setNewClassSupercategory(e.target.value)}
+                      placeholder={DEFAULT_SUPERCATEGORY}
+                    />
+                  </div>
                   <Button onClick={handleAddClass}>Add Class</Button>
                 </div>
               </DialogContent>
             </Dialog>
+            <Button
+              className={`${buttonClass(false)} mt-2`}
+              onClick={() => setIsClassManagerOpen(true)}
+            >
+              <FaListUl className="mr-2" color="black" />
+              Manage Classes
+            </Button>
+            <ClassManagerDialog
+              open={isClassManagerOpen}
+              onOpenChange={setIsClassManagerOpen}
+              classes={classes}
+              onSave={handleSaveClasses}
+              onDelete={handleRequestDeleteClass}
+            />
+            <DeleteClassDialog
+              cls={classToDelete?.cls ?? null}
+              usage={classToDelete?.usage ?? { annotations: 0, images: 0 }}
+              classes={classes}
+              onCancel={() => setClassToDelete(null)}
+              onConfirm={handleDeleteClass}
+            />
+            <div className="mt-2 flex gap-2">
+              <Button
+                className={buttonClass(false)}
+                onClick={handleExportClasses}
+              >
+                <FaDownload className="mr-2" color="black" />
+                Export Classes
+              </Button>
+              <input
+                type="file"
+                ref={classesInputRef}
+                onChange={handleImportClasses}
+                accept="application/json,.json"
+                className="hidden"
+              />
+              <Button
+                className={buttonClass(false)}
+                onClick={() => classesInputRef.current?.click()}
+              >
+                <FaFileImport className="mr-2" color="black" />
+                Import Classes
+              </Button>
+            </div>
+            <CategoryRemapDialog
+              open={pendingRemap.length > 0}
+              onOpenChange={(open) => {
+                if (!open) setPendingRemap([]);
+              }}
+              remap={pendingRemap}
+              onApply={handleApplyRemap}
+            />
 
             <div className="mt-4">
               <h5 className="mb-4 text-xs md:text-base">Select a Class </h5>
@@ -278,6 +1288,14 @@ export default function Home() {
                 ref={fileInputRef}
                 onChange={handleFileUpload}
                 accept="image/*"
+                multiple
+                className="hidden"
+              />
+              <input
+                type="file"
+                ref={folderInputRef}
+                onChange={handleFileUpload}
+                multiple
                 className="hidden"
               />
               <h2 className="mb-5 mt-6 border-t-2 border-gray-500 pt-2 text-xs font-bold md:text-lg">
@@ -288,7 +1306,14 @@ export default function Home() {
                 className={buttonClass(false)}
               >
                 <FaUpload color="black" className="mr-2" />
-                Upload Image
+                Upload Images
+              </Button>
+              <Button
+                onClick={() => folderInputRef.current?.click()}
+                className={`${buttonClass(false)} mt-2`}
+              >
+                <FaFolderOpen color="black" className="mr-2" />
+                Upload Folder
               </Button>
             </div>
 
@@ -310,20 +1335,75 @@ export default function Home() {
                 <FaDrawPolygon className="mr-2" />
                 Polygon
               </Button>
+              <Button
+                onClick={() => handleSetTool("hole")}
+                className={buttonClass(tool === "hole")}
+              >
+                <FaCircleNotch className="mr-2" />
+                Cut Hole
+              </Button>
+              <Button
+                onClick={() => handleSetTool("bbox")}
+                className={buttonClass(tool === "bbox")}
+              >
+                <FaVectorSquare className="mr-2" />
+                Bounding Box
+              </Button>
+              <Button
+                onClick={() => handleSetTool("eraser")}
+                className={buttonClass(tool === "eraser")}
+              >
+                <FaEraser className="mr-2" />
+                Eraser
+              </Button>
+              <Button
+                onClick={() => handleSetTool("edit")}
+                className={buttonClass(tool === "edit")}
+              >
+                <FaMousePointer className="mr-2" />
+                Edit Shapes
+              </Button>
               <Button onClick={undo} className={buttonClass(false)}>
                 <FaUndo className="mr-2" />
                 Undo
               </Button>
+              <Button onClick={redo} className={buttonClass(false)}>
+                <FaRedo className="mr-2" />
+                Redo
+              </Button>
               <Button
                 onClick={() => canvasRef.current?.toggleAnnotationsView()}
                 className={buttonClass(false)}
               >
-                <FaEraser className="mr-2" />
+                <FaList className="mr-2" />
                 Toggle Annotations View
               </Button>
+              <Button
+                onClick={() => setIsHotkeyDialogOpen(true)}
+                className={buttonClass(false)}
+              >
+                <FaKeyboard className="mr-2" />
+                Keyboard Shortcuts
+              </Button>
+              <HotkeySettingsDialog
+                open={isHotkeyDialogOpen}
+                onOpenChange={setIsHotkeyDialogOpen}
+                bindings={hotkeys}
+                onSave={(bindings) => {
+                  setHotkeys(bindings);
+                  saveHotkeys(bindings);
+                  setIsHotkeyDialogOpen(false);
+                  toast.success("Keyboard shortcuts saved");
+                }}
+              />
+              <CommandPalette
+                open={isPaletteOpen}
+                onOpenChange={setIsPaletteOpen}
+                commands={paletteCommands}
+              />
             </div>
 
-            {tool === "brush" && (
+            {(tool === "brush" || tool === "eraser") && (
               <div className="mt-4">
                 <label className="mb-2 block text-xs font-medium md:text-sm">
                   {tool === "brush" ? "Brush" : "Eraser"} Size: {brushSize}px
@@ -342,23 +1422,203 @@ export default function Home() {
             <h2 className="mb-4 mt-2 border-t-2 border-gray-500 pt-2 text-xs font-bold md:text-lg">
               Export
             </h2>
-            <Button onClick={handleExport} className={buttonClass(false)}>
+            <Button
+              onClick={() => setIsDatasetDialogOpen(true)}
+              className={`${buttonClass(false)} mb-2`}
+            >
+              <FaCog className="mr-2" color="black" />
+              Dataset Settings
+            </Button>
+            <DatasetSettingsDialog
+              open={isDatasetDialogOpen}
+              onOpenChange={setIsDatasetDialogOpen}
+              dataset={dataset}
+              onSave={(settings) => {
+                setDataset(settings);
+                setIsDatasetDialogOpen(false);
+                toast.success("Dataset settings saved");
+              }}
+            />
+            <div className="mb-2">
+              <label
+                htmlFor="brushExportMode"
+                className="mb-1 block text-xs font-medium md:text-sm"
+              >
+                Brush strokes in COCO as
+              </label>
+              <select
+                id="brushExportMode"
+                value={brushExportMode}
+                onChange={(e) =>
+                  setBrushExportMode(e.target.value as BrushExportMode)
+                }
+                className="w-full rounded border border-gray-400 p-1 text-xs md:text-sm"
+              >
+                <option value="rle">Masks (RLE, iscrowd 1)</option>
+                <option value="polygon">Outline polygons</option>
+              </select>
+            </div>
+            <div className="mb-2">
+              <label
+                htmlFor="holeExportMode"
+                className="mb-1 block text-xs font-medium md:text-sm"
+              >
+                Polygons with holes in COCO as
+              </label>
+              <select
+                id="holeExportMode"
+                value={holeExportMode}
+                onChange={(e) =>
+                  setHoleExportMode(e.target.value as HoleExportMode)
+                }
+                className="w-full rounded border border-gray-400 p-1 text-xs md:text-sm"
+              >
+                <option value="polygon">Polygons (holes bridged)</option>
+                <option value="rle">Masks (RLE, iscrowd 0)</option>
+              </select>
+            </div>
+            <Button
+              onClick={() => void handleExport()}
+              className={buttonClass(false)}
+            >
               <FaDownload className="mr-2" color="black" />
               Export COCO
             </Button>
+            <input
+              type="file"
+              ref={cocoInputRef}
+              onChange={handleImportCOCO}
+              accept="application/json,.json"
+              className="hidden"
+            />
+            <Button
+              onClick={() => cocoInputRef.current?.click()}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaFileImport className="mr-2" color="black" />
+              Import COCO
+            </Button>
+            <Button
+              onClick={handleExportVOC}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaDownload className="mr-2" color="black" />
+              Export VOC
+            </Button>
+            <input
+              type="file"
+              ref={vocInputRef}
+              onChange={handleImportVOC}
+              accept="application/xml,text/xml,.xml"
+              multiple
+              className="hidden"
+            />
+            <Button
+              onClick={() => vocInputRef.current?.click()}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaFileImport className="mr-2" color="black" />
+              Import VOC
+            </Button>
+            <Button
+              onClick={() => handleExportYOLO("detect")}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaDownload className="mr-2" color="black" />
+              Export YOLO (boxes)
+            </Button>
+            <Button
+              onClick={() => handleExportYOLO("segment")}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaDownload className="mr-2" color="black" />
+              Export YOLO (polygons)
+            </Button>
+            <Button
+              onClick={() => setIsMaskDialogOpen(true)}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaDownload className="mr-2" color="black" />
+              Export Masks
+            </Button>
+            <MaskExportDialog
+              open={isMaskDialogOpen}
+              onOpenChange={setIsMaskDialogOpen}
+              exporting={isExportingMasks}
+              onExport={(options) => void handleExportMasks(options)}
+            />
+            <Button
+              onClick={() => void openSessionsDialog()}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaHistory className="mr-2" color="black" />
+              Saved Sessions
+            </Button>
+            <h2 className="mb-4 mt-4 border-t-2 border-gray-500 pt-2 text-xs font-bold md:text-lg">
+              Server
+            </h2>
+            <Button
+              onClick={() => void handleSaveToServer()}
+              disabled={isSyncing}
+              className={buttonClass(false)}
+            >
+              <FaCloudUploadAlt className="mr-2" color="black" />
+              Save to Server
+            </Button>
+            <Button
+              onClick={() => setIsServerDialogOpen(true)}
+              disabled={isSyncing}
+              className={`${buttonClass(false)} mt-2`}
+            >
+              <FaCloudDownloadAlt className="mr-2" color="black" />
+              Open from Server
+            </Button>
+            <ValidationReportDialog
+              open={validationReport !== null}
+              onOpenChange={(open) => {
+                if (!open) setValidationReport(null);
+              }}
+              title={validationReport?.title ?? ""}
+              issues={validationReport?.issues ?? []}
+            />
+            <ServerProjectsDialog
+              open={isServerDialogOpen}
+              onOpenChange={setIsServerDialogOpen}
+              currentProjectId={remoteProjectId}
+              onOpen={(projectId) => void handleOpenFromServer(projectId)}
+            />
+            <SessionsDialog
+              open={isSessionsDialogOpen}
+              onOpenChange={setIsSessionsDialogOpen}
+              sessions={savedSessions}
+              currentSessionId={sessionInfo?.id ?? null}
+              onResume={(session) => void handleResumeSession(session)}
+              onDelete={(session) => void handleDeleteSession(session)}
+            />
           </div>
         </div>
 
         {/* Main canvas container with safe-area padding */}
-        <div className="relaxtive flex-1 overflow-hidden">
-          <Canvas
-            ref={canvasRef}
-            tool={tool}
-            brushSize={brushSize}
-            imageUrl={imageUrl}
-            selectedClass={selectedClass}
-            classes={classes}
-          />
+        <div className="relaxtive flex flex-1 flex-col overflow-hidden">
+          <div className="relative min-h-0 flex-1">
+            <Canvas
+              ref={canvasRef}
+              tool={tool}
+              brushSize={brushSize}
+              image={images.find((image) => image.id === activeImageId) ?? null}
+              images={images}
+              selectedClass={selectedClass}
+              classes={classes}
+              onChange={() => setAnnotationVersion((version) => version + 1)}
+            />
+          </div>
+          {images.length > 0 && (
+            <Filmstrip
+              images={images}
+              activeImageId={activeImageId}
+              onSelect={setActiveImageId}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import {
+  FaEye,
+  FaEyeSlash,
+  FaLock,
+  FaLockOpen,
+  FaPen,
+  FaTrash,
+} from "react-icons/fa";
+import { type Class } from "~/Types/Class";
+import ClassPicker from "~/components/ClassPicker/ClassPicker";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  type AnnotationMeta,
+  getAnnotationMeta,
+} from "~/utils/annotationObjects";
+import { type Annotation } from "~/utils/COCOUtils";
+
+// An annotation with the figures listed for it
+export type AnnotationLayer = {
+  annotation: Annotation;
+  area: number;
+  vertices: number;
+};
+
+interface AnnotationLayersProps {
+  layers: AnnotationLayer[];
+  classes: Class[];
+  selectedIds: number[];
+  // `additive` adds the annotation to the selection or removes it from it
+  onSelect: (id: number, additive: boolean) => void;
+  onSelectMany: (ids: number[]) => void;
+  onHover: (id: number, hovered: boolean) => void;
+  onUpdate: (id: number, meta: Partial<AnnotationMeta>) => void;
+  onDelete: (ids: number[]) => void;
+  onReclassify: (ids: number[], cls: Class) => void;
+}
+
+const TYPE_NAMES: Record<Annotation["type"], string> = {
+  polygon: "Polygon",
+  path: "Brush",
+  bbox: "Box",
+};
+
+// Filter value of annotations without a class
+const NO_CLASS = "none";
+
+const AnnotationLayers = ({
+  layers,
+  classes,
+  selectedIds,
+  onSelect,
+  onSelectMany,
+  onHover,
+  onUpdate,
+  onDelete,
+  onReclassify,
+}: AnnotationLayersProps) => {
+  const [search, setSearch] = useState("");
+  // "" for every class, NO_CLASS, or a class id
+  const [classFilter, setClassFilter] = useState("");
+  // Annotation whose name and notes are being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  // Annotations waiting for the delete to be confirmed
+  const [pendingDelete, setPendingDelete] = useState<number[]>([]);
+
+  const query = search.trim().toLowerCase();
+  const shown = layers.filter(({ annotation }) => {
+    const cls = annotation.class;
+    if (classFilter === NO_CLASS && cls) return false;
+    if (classFilter && classFilter !== NO_CLASS) {
+      if (String(cls?.id) !== classFilter) return false;
+    }
+    if (!query) return true;
+    const { label, notes } = getAnnotationMeta(annotation);
+    return [label, notes, cls?.name ?? "", String(annotation.id)].some((text) =>
+      text.toLowerCase().includes(query),
+    );
+  });
+  // Bulk actions only apply to selected annotations that are listed
+  const selected = shown
+    .map(({ annotation }) => annotation.id)
+    .filter((id) => selectedIds.includes(id));
+
+  return (
+    <div className="flex h-full flex-col gap-2 p-2 text-xs">
+      <Input
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search name, class, notes or id"
+        aria-label="Search annotations"
+      />
+      <select
+        value={classFilter}
+        onChange={(e) => setClassFilter(e.target.value)}
+        className="w-full rounded border border-gray-400 p-1"
+        aria-label="Filter by class"
+      >
+        <option value="">All classes</option>
+        {classes.map((cls) => (
+          <option key={cls.id} value={cls.id}>
+            {cls.name}
+          </option>
+        ))}
+        <option value={NO_CLASS}>No class</option>
+      </select>
+      <div className="flex items-center justify-between">
+        <span>
+          {shown.length} of {layers.length} annotation(s)
+        </span>
+        <span className="flex gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              onSelectMany(shown.map(({ annotation }) => annotation.id))
+            }
+          >
+            Select all
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onSelectMany([])}>
+            Clear
+          </Button>
+        </span>
+      </div>
+
+      {selected.length > 0 && pendingDelete.length === 0 && (
+        <div className="grid gap-1 rounded border border-blue-300 bg-blue-50 p-2">
+          <span>{selected.length} selected: change class to</span>
+          <ClassPicker
+            classes={classes}
+            selectedClass={null}
+            onClassSelect={(cls) => cls && onReclassify(selected, cls)}
+          />
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => setPendingDelete(selected)}
+          >
+            Delete selected
+          </Button>
+        </div>
+      )}
+      {pendingDelete.length > 0 && (
+        <div className="grid gap-1 rounded border border-red-300 bg-red-50 p-2">
+          <span>Delete {pendingDelete.length} annotation(s)?</span>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => {
+                onDelete(pendingDelete);
+                setPendingDelete([]);
+              }}
+            >
+              Delete
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setPendingDelete([])}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto">
+        {shown.map(({ annotation, area, vertices }) => {
+          const meta = getAnnotationMeta(annotation);
+          const isSelected = selectedIds.includes(annotation.id);
+          return (
+            <li
+              key={annotation.id}
+              className={`mb-1 rounded border p-1 ${
+                isSelected ? "border-blue-500 bg-blue-50" : "border-slate-300"
+              } ${meta.hidden ? "opacity-60" : ""}`}
+              onMouseEnter={() => onHover(annotation.id, true)}
+              onMouseLeave={() => onHover(annotation.id, false)}
+            >
+              <div className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => onSelect(annotation.id, true)}
+                  aria-label="Select annotation"
+                />
+                <button
+                  className="flex min-w-0 flex-1 items-center gap-1 text-left"
+                  onClick={(e) =>
+                    onSelect(
+                      annotation.id,
+                      e.shiftKey || e.ctrlKey || e.metaKey,
+                    )
+                  }
+                >
+                  <span
+                    className="h-3 w-3 shrink-0 rounded-full"
+                    style={{
+                      backgroundColor: annotation.class?.color ?? "#f0f0f0",
+                    }}
+                  />
+                  <span className="truncate font-medium">
+                    {meta.label || (annotation.class?.name ?? "No class")}
+                  </span>
+                </button>
+                <button
+                  onClick={() =>
+                    onUpdate(annotation.id, { hidden: !meta.hidden })
+                  }
+                  aria-label={meta.hidden ? "Show" : "Hide"}
+                  title={meta.hidden ? "Show" : "Hide"}
+                >
+                  {meta.hidden ? <FaEyeSlash /> : <FaEye />}
+                </button>
+                <button
+                  onClick={() =>
+                    onUpdate(annotation.id, { locked: !meta.locked })
+                  }
+                  aria-label={meta.locked ? "Unlock" : "Lock"}
+                  title={meta.locked ? "Unlock" : "Lock"}
+                >
+                  {meta.locked ? <FaLock /> : <FaLockOpen />}
+                </button>
+                <button
+                  onClick={() =>
+                    setEditingId((prev) =>
+                      prev === annotation.id ? null : annotation.id,
+                    )
+                  }
+                  aria-label="Edit name and notes"
+                  title="Edit name and notes"
+                >
+                  <FaPen />
+                </button>
+                <button
+                  onClick={() => setPendingDelete([annotation.id])}
+                  aria-label="Delete"
+                  title="Delete"
+                >
+                  <FaTrash />
+                </button>
+              </div>
+              <div className="pl-5 text-gray-600">
+                {meta.label && annotation.class
+                  ? `${annotation.class.name} · `
+                  : ""}
+                {TYPE_NAMES[annotation.type]} · {vertices} vertices ·{" "}
+                {Math.round(area).toLocaleString()} px²
+              </div>
+              {meta.notes && editingId !== annotation.id && (
+                <div className="truncate pl-5 italic text-gray-600">
+                  {meta.notes}
+                </div>
+              )}
+              {editingId === annotation.id && (
+                <div className="mt-1 grid gap-1 pl-5">
+                  <Input
+                    value={meta.label}
+                    onChange={(e) =>
+                      onUpdate(annotation.id, { label: e.target.value })
+                    }
+                    placeholder="Name"
+                    aria-label="Annotation name"
+                  />
+                  <textarea
+                    value={meta.notes}
+                    onChange={(e) =>
+                      onUpdate(annotation.id, { notes: e.target.value })
+                    }
+                    placeholder="Notes"
+                    aria-label="Annotation notes"
+                    className="rounded border border-gray-300 p-1"
+                    rows={2}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AnnotationLayers;
@@ -7,6 +7,7 @@ import {
   forwardRef,
   useState,
   useCallback,
+  useMemo,
 } from "react";
 import {
   Canvas as FabricCanvas,
@@ -15,104 +16,789 @@ import {
   Circle,
   Line,
   Polygon,
+  Rect,
   PencilBrush,
-  type Path,
-  util,
+  Path,
+  Point,
   type TPointerEvent,
+  controlsUtils,
+  util,
 } from "fabric";
 import type { Class } from "~/Types/Class";
+import type { DatasetInfo } from "~/Types/DatasetInfo";
+import type { ProjectImage } from "~/Types/ProjectImage";
+import type { SavedAnnotation } from "~/Types/SavedSession";
 import { Button } from "~/components/ui/button";
-import { FaTrash } from "react-icons/fa";
-import { getAlpha, hexToRgba } from "~/utils/colors";
+import ClassPicker from "~/components/ClassPicker/ClassPicker";
+import AnnotationLayers, {
+  type AnnotationLayer,
+} from "~/components/AnnotationLayers/AnnotationLayers";
+import { FaTimes } from "react-icons/fa";
+import { hexToRgba } from "~/utils/colors";
 import {
+  type AnnotatedImage,
+  type BrushExportMode,
   buildCOCOData,
+  type COCOExportData,
+  type COCOImportData,
   createCategoryMap,
-  downloadJSONData,
-  validateCOCO,
+  fromImagePoints,
+  type HoleExportMode,
+  type Point2D,
+  getPathPoints,
+  getRectCorners,
+  isBBoxAnnotation,
+  segmentationToRings,
+  toObjectPoint,
+  toScenePoints,
 } from "~/utils/COCOUtils";
 import toast from "react-hot-toast";
+import {
+  type Annotation,
+  buildAnnotationsData,
+  measureAnnotation,
+} from "~/utils/COCOUtils";
+import {
+  type AnnotationMeta,
+  createAnnotation,
+  findAnnotation,
+  getAnnotationMeta,
+  setAnnotationMeta,
+} from "~/utils/annotationObjects";
+import {
+  applyGeometry,
+  applyListChange,
+  captureGeometry,
+  type HistoryCommand,
+  invertCommand,
+  type ObjectGeometry,
+  type PlacedAnnotation,
+} from "~/utils/annotationHistory";
+import {
+  bufferPolyline,
+  distanceToSegment,
+  type PolygonShape,
+  ringToArea,
+  splitPolylineOutside,
+  subtractFromPolygon,
+} from "~/utils/geometryUtils";
+import { HoledPolygon } from "~/utils/holedPolygon";
+import { keyBelongsToTarget } from "~/utils/hotkeys";
 import { generateRandomId } from "~/utils/uuid";
-import { type Annotation, buildAnnotationsData } from "~/utils/COCOUtils";
-import { getClassFromColor } from "~/utils/classUtils";
+
+export type CanvasTool =
+  | "brush"
+  | "polygon"
+  | "hole"
+  | "bbox"
+  | "eraser"
+  | "edit";
 
 interface CanvasProps {
-  tool: "brush" | "polygon" | "eraser" | null;
+  tool: CanvasTool | null;
   brushSize: number;
-  imageUrl: string | null;
+  image: ProjectImage | null;
+  images: ProjectImage[];
   selectedClass: Class | null;
   classes: Class[];
+  // Called whenever annotations are added, removed or edited
+  onChange?: () => void;
 }
 
-type CanvasState = {
-  version: string;
-  objects: Array<Record<string, FabricObject>>;
-  background: string;
+export type CanvasImportResult = {
+  imported: number;
+  skipped: number;
+  unmatchedImages: string[];
+};
+
+// Annotations of a class, and the images they are on
+export type ClassUsage = {
+  annotations: number;
+  images: number;
+};
+
+// Actions the page can trigger on the canvas through its ref
+export type CanvasHandle = {
+  undo: () => void;
+  redo: () => void;
+  // COCO file of the whole project, or null when there is nothing to export
+  getCOCOData: (
+    brushMode: BrushExportMode,
+    holeMode: HoleExportMode,
+    dataset: DatasetInfo,
+  ) => COCOExportData | null;
+  // Every image opened so far with its annotations, or null when there is
+  // nothing to export
+  getAnnotatedImages: () => AnnotatedImage[] | null;
+  importFromCOCO: (
+    data: COCOImportData,
+    categoryToClass: Record<number, Class>,
+  ) => Promise<CanvasImportResult>;
+  toggleAnnotationsView: () => void;
+  serializeAnnotations: () => Record<number, SavedAnnotation[]>;
+  restoreProject: (
+    images: ProjectImage[],
+    annotations: Record<number, SavedAnnotation[]>,
+    classes: Class[],
+  ) => Promise<void>;
+  // Counts the annotations of a class without touching the canvas
+  countClassUsage: (classId: number) => ClassUsage;
+  // Reassigns or removes the annotations of a class about to be deleted
+  removeClass: (classId: number, replacement: Class | null) => number;
+  // Closes the polygon being drawn, if it has three points
+  finishPolygon: () => void;
+  cancelPolygon: () => void;
+  // Deletes the selected annotations in one undoable step
+  deleteSelection: () => void;
+};
+
+// What undo took away: a command, or one point (and the line that led to it)
+// of the polygon being drawn
+type RedoEntry =
+  | { kind: "command"; command: HistoryCommand }
+  | { kind: "point"; circle: Circle; line?: Line };
+
+// Work done on one image of the project, kept while other images are shown
+type ImageSession = {
+  image: FabricImage;
+  annotations: Annotation[];
+  history: HistoryCommand[];
+  redo: RedoEntry[];
 };
 
+// Keeps the image at its native resolution at the scene origin and fits it
+// into the canvas through the viewport transform, so that scene coordinates
+// are always image pixel coordinates regardless of the window size
+function fitImageToCanvas(canvas: FabricCanvas, image: FabricImage) {
+  const canvasWidth = canvas.getWidth();
+  const canvasHeight = canvas.getHeight();
+
+  // Calculate scaling to fit the canvas while maintaining aspect ratio
+  const scale = Math.min(
+    canvasWidth / image.width,
+    canvasHeight / image.height,
+  );
+
+  image.set({
+    scaleX: 1,
+    scaleY: 1,
+    left: 0,
+    top: 0,
+    selectable: false,
+  });
+  canvas.setViewportTransform([
+    scale,
+    0,
+    0,
+    scale,
+    (canvasWidth - image.width * scale) / 2,
+    (canvasHeight - image.height * scale) / 2,
+  ]);
+}
+
+// Outlines and polygon markers are sized in screen pixels when created; keep
+// them that size when the zoom changes. Brush strokes are image content and
+// keep their width in image pixels.
+function scaleOverlaysToZoom(canvas: FabricCanvas) {
+  const zoom = canvas.getZoom();
+  canvas.getObjects().forEach((obj) => {
+    if (obj instanceof Polygon || obj instanceof Rect || obj instanceof Line) {
+      obj.set({ strokeWidth: 2 / zoom });
+    } else if (obj instanceof Circle) {
+      obj.set({ radius: 3 / zoom, strokeWidth: 1 / zoom });
+    }
+  });
+}
+
+function clampZoom(zoom: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+// Builds the filled, outlined shape used for every polygon annotation
+function createClassPolygon(
+  points: Point2D[],
+  cls: Class | null,
+  zoom: number,
+  holes: Point2D[][] = [],
+): Polygon {
+  return new HoledPolygon(points, {
+    holes,
+    fill: hexToRgba(cls?.color ?? "#f0f0f0", CONTENT_OPACITY),
+    stroke: hexToRgba(cls?.color ?? "#000000", POLYGON_OUTLINE_OPACITY),
+    strokeWidth: 2 / zoom,
+    selectable: false,
+  });
+}
+
+// Builds the rectangle of a bbox annotation spanning two opposite corners.
+// Centre origin keeps the geometric edges exactly on the corners whatever the
+// stroke width, and a uniform stroke keeps the outline thin when resized.
+function createClassRect(
+  a: Point2D,
+  b: Point2D,
+  cls: Class | null,
+  zoom: number,
+  opacity = CONTENT_OPACITY,
+): Rect {
+  const rect = new Rect({
+    originX: "center",
+    originY: "center",
+    fill: hexToRgba(cls?.color ?? "#f0f0f0", opacity),
+    stroke: hexToRgba(cls?.color ?? "#000000", POLYGON_OUTLINE_OPACITY),
+    strokeWidth: 2 / zoom,
+    strokeUniform: true,
+    selectable: false,
+  });
+  setRectCorners(rect, a, b);
+  return rect;
+}
+
+function setRectCorners(rect: Rect, a: Point2D, b: Point2D) {
+  rect.set({
+    left: (a.x + b.x) / 2,
+    top: (a.y + b.y) / 2,
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+    scaleX: 1,
+    scaleY: 1,
+  });
+  rect.setCoords();
+}
+
+// Colours the object of an annotation after its class, or in the neutral
+// colours when it has none
+function applyClassStyle({ type, object, class: cls }: Annotation) {
+  if (type === "path") {
+    object.set({ stroke: hexToRgba(cls?.color ?? "#000000", CONTENT_OPACITY) });
+  } else {
+    object.set({
+      fill: hexToRgba(cls?.color ?? "#f0f0f0", CONTENT_OPACITY),
+      stroke: hexToRgba(cls?.color ?? "#000000", POLYGON_OUTLINE_OPACITY),
+    });
+  }
+  if (object instanceof Rect) {
+    object.set({ cornerStrokeColor: object.stroke as string });
+  }
+  object.set({ annotationClass: cls });
+}
+
+// Points an annotation at the current version of its class, which may have
+// been renamed, recoloured or deleted since. Returns whether it changed.
+function relinkClass(annotation: Annotation, classes: Class[]): boolean {
+  if (!annotation.class) return false;
+  const id = annotation.class.id;
+  const cls = classes.find((item) => item.id === id) ?? null;
+  if (cls === annotation.class) return false;
+  annotation.class = cls;
+  applyClassStyle(annotation);
+  return true;
+}
+
+// Makes a step of the history use `replacement` wherever it used the class
+// `classId`, so that undo and redo never bring back a deleted class
+function replaceClassInCommand(
+  command: HistoryCommand,
+  classId: number,
+  replacement: Class,
+) {
+  if (command.kind === "reclass") {
+    command.changes.forEach((change) => {
+      if (change.before === classId) change.before = replacement.id;
+      if (change.after === classId) change.after = replacement.id;
+    });
+  } else if (command.kind === "change") {
+    [...command.removed, ...command.added].forEach(({ annotation }) => {
+      if (annotation.class?.id !== classId) return;
+      annotation.class = replacement;
+      applyClassStyle(annotation);
+    });
+  }
+}
+
+// Layer panel figures of each annotation object, with the geometry they were
+// measured for and the last edit revision they were checked at. Label and
+// notes edits keep the geometry, so they reuse them.
+const measurements = new WeakMap<
+  FabricObject,
+  { revision: number; geometry: string; area: number; vertices: number }
+>();
+
+function measureAnnotationCached(
+  annotation: Annotation,
+  image: FabricImage,
+  revision: number,
+) {
+  let cached = measurements.get(annotation.object);
+  if (cached?.revision !== revision) {
+    const geometry = JSON.stringify(captureGeometry(annotation.object));
+    cached =
+      cached?.geometry === geometry
+        ? { ...cached, revision }
+        : { revision, geometry, ...measureAnnotation(annotation, image) };
+    measurements.set(annotation.object, cached);
+  }
+  return { area: cached.area, vertices: cached.vertices };
+}
+
+// Rebuilds a brush stroke from a run of scene points, keeping its style
+function createStrokeLike(original: Path, points: Point2D[]): Path {
+  const [first, ...rest] = points;
+  const pathData = [
+    `M ${first?.x ?? 0} ${first?.y ?? 0}`,
+    ...rest.map((pt) => `L ${pt.x} ${pt.y}`),
+  ].join(" ");
+  return new Path(pathData, {
+    stroke: original.stroke,
+    strokeWidth: (original.strokeWidth ?? 1) * (original.scaleX ?? 1),
+    strokeLineCap: "round",
+    strokeLineJoin: "round",
+    fill: null,
+    selectable: false,
+  });
+}
 
 // -- Setup "brush" tool
 function setupBrushTool(
   canvas: FabricCanvas,
   brushSize: number,
   selectedClass: Class | null,
-  setAnnotations: React.Dispatch<React.SetStateAction<Annotation[]>>,
+  addAnnotation: (annotation: Annotation) => void,
   handlePathCreatedRef: React.MutableRefObject<
     ((e: { path: Path }) => void) | undefined
   >,
 ) {
   canvas.isDrawingMode = true;
   canvas.freeDrawingBrush = new PencilBrush(canvas);
-  canvas.freeDrawingBrush.width = brushSize;
+  canvas.freeDrawingBrush.width = brushSize / canvas.getZoom();
   canvas.freeDrawingBrush.color = hexToRgba(
     selectedClass?.color ?? "#000000",
     CONTENT_OPACITY,
   );
 
   const handlePathCreated = (e: { path: Path }) => {
-    const pathObj = e.path;
+    addAnnotation(createAnnotation("path", selectedClass, e.path));
+  };
 
-    setAnnotations((prev) => [
-      ...prev,
-      { type: "path", class: selectedClass, object: pathObj },
-    ]);
+  handlePathCreatedRef.current = handlePathCreated;
+  canvas.on("path:created", handlePathCreated);
+}
+
+// -- Setup "eraser" tool
+// The eraser trail is drawn with a neutral brush and handed over to `onErase`
+// as scene points; the trail itself never stays on the canvas.
+function setupEraserTool(
+  canvas: FabricCanvas,
+  brushSize: number,
+  onErase: (trail: Point2D[], radius: number) => void,
+  handlePathCreatedRef: React.MutableRefObject<
+    ((e: { path: Path }) => void) | undefined
+  >,
+) {
+  canvas.isDrawingMode = true;
+  canvas.freeDrawingBrush = new PencilBrush(canvas);
+  canvas.freeDrawingBrush.width = brushSize / canvas.getZoom();
+  canvas.freeDrawingBrush.color = ERASER_TRAIL_COLOR;
+
+  const handlePathCreated = (e: { path: Path }) => {
+    const trailPath = e.path;
+    canvas.remove(trailPath);
+    onErase(
+      toScenePoints(trailPath, getPathPoints(trailPath)),
+      trailPath.strokeWidth / 2,
+    );
   };
 
   handlePathCreatedRef.current = handlePathCreated;
   canvas.on("path:created", handlePathCreated);
 }
 
-// -- Setup "polygon" tool
-function setupPolygonTool(
+// Polygons and boxes can only be picked and dragged while the edit tool is
+// active
+function setAnnotationsEditable(canvas: FabricCanvas, editable: boolean) {
+  canvas
+    .getObjects()
+    .forEach((obj) => setAnnotationEditable(obj, editable));
+}
+
+function setAnnotationEditable(obj: FabricObject, editable: boolean) {
+  if (obj instanceof Polygon || obj instanceof Rect) {
+    const allowed = editable && !obj.annotationLocked;
+    obj.set({ selectable: allowed, evented: allowed });
+  }
+  if (obj instanceof Rect) {
+    showCornerControls(obj as Rect);
+  }
+}
+
+// Boxes stay axis-aligned: only the four corner handles are offered
+function showCornerControls(rect: Rect) {
+  rect.set({
+    lockRotation: true,
+    cornerStyle: "circle",
+    cornerColor: "#ffffff",
+    cornerStrokeColor: rect.stroke as string,
+    transparentCorners: false,
+    cornerSize: 10,
+  });
+  rect.setControlsVisibility({
+    mt: false,
+    mb: false,
+    ml: false,
+    mr: false,
+    mtr: false,
+  });
+}
+
+// Replaces the usual scale/rotate handles with one handle per vertex
+function showVertexControls(polygon: Polygon) {
+  polygon.set({
+    controls: controlsUtils.createPolyControls(polygon),
+    hasBorders: false,
+    cornerStyle: "circle",
+    cornerColor: "#ffffff",
+    cornerStrokeColor: polygon.stroke as string,
+    transparentCorners: false,
+    cornerSize: 10,
+  });
+  polygon.setCoords();
+}
+
+// -- Setup "bbox" tool
+// Press, drag and release to draw a box. The box is drawn with a lighter fill
+// until released, so that unfinished boxes never reach the undo history.
+// Returns a function that removes the handlers and any unfinished box.
+function setupBBoxTool(
   canvas: FabricCanvas,
   selectedClass: Class | null,
+  addAnnotation: (annotation: Annotation) => void,
+) {
+  canvas.isDrawingMode = false;
+  canvas.selection = false;
+  let start: Point2D | null = null;
+  let draft: Rect | null = null;
+
+  const handleMouseDown = (options: { e: TPointerEvent }) => {
+    if (!selectedClass) {
+      alert("Please select a class before drawing.");
+      return;
+    }
+    start = canvas.getPointer(options.e);
+    draft = createClassRect(
+      start,
+      start,
+      selectedClass,
+      canvas.getZoom(),
+      DRAFT_OPACITY,
+    );
+    canvas.add(draft);
+  };
+
+  const handleMouseMove = (options: { e: TPointerEvent }) => {
+    if (!start || !draft) return;
+    setRectCorners(draft, start, canvas.getPointer(options.e));
+    canvas.requestRenderAll();
+  };
+
+  const handleMouseUp = () => {
+    if (!start || !draft) return;
+    const rect = draft;
+    start = null;
+    draft = null;
+
+    // A plain click is not a box
+    const zoom = canvas.getZoom();
+    if (rect.width * zoom < MIN_BBOX_SIZE || rect.height * zoom < MIN_BBOX_SIZE) {
+      canvas.remove(rect);
+      return;
+    }
+
+    rect.set({
+      fill: hexToRgba(selectedClass?.color ?? "#f0f0f0", CONTENT_OPACITY),
+    });
+    canvas.requestRenderAll();
+    addAnnotation(createAnnotation("bbox", selectedClass, rect));
+  };
+
+  canvas.on("mouse:down", handleMouseDown);
+  canvas.on("mouse:move", handleMouseMove);
+  canvas.on("mouse:up", handleMouseUp);
+
+  return () => {
+    canvas.off("mouse:down", handleMouseDown);
+    canvas.off("mouse:move", handleMouseMove);
+    canvas.off("mouse:up", handleMouseUp);
+    if (draft) {
+      canvas.remove(draft);
+      canvas.requestRenderAll();
+    }
+  };
+}
+
+// -- Setup "edit" tool
+// Dragging a vertex handle moves that vertex and dragging the shape moves it
+// whole. Double-clicking a vertex deletes it, double-clicking an edge inserts
+// a new vertex there. Boxes are moved the same way and resized by their
+// corners. Every edit is reported with the geometry the object had before it.
+// Returns a function that leaves edit mode.
+function setupEditTool(
+  canvas: FabricCanvas,
+  onEdited: (obj: FabricObject, before: ObjectGeometry) => void,
+) {
+  canvas.isDrawingMode = false;
+  canvas.selection = false;
+  setAnnotationsEditable(canvas, true);
+  // Geometry of the object under the pointer when a drag starts
+  let pending: { obj: FabricObject; before: ObjectGeometry } | null = null;
+
+  const handleMouseDown = (options: { target?: FabricObject }) => {
+    pending = options.target
+      ? { obj: options.target, before: captureGeometry(options.target) }
+      : null;
+  };
+
+  const handleModified = (options: { target: FabricObject }) => {
+    if (pending?.obj !== options.target) return;
+    onEdited(pending.obj, pending.before);
+    pending = null;
+  };
+
+  const handleSelection = () => {
+    const active = canvas.getActiveObject();
+    if (active instanceof Polygon) {
+      showVertexControls(active);
+      canvas.requestRenderAll();
+    }
+  };
+
+  const handleDoubleClick = (options: {
+    e: TPointerEvent;
+    target?: FabricObject;
+  }) => {
+    const polygon = options.target;
+    if (!(polygon instanceof Polygon)) return;
+
+    const pointer = canvas.getPointer(options.e);
+    const before = captureGeometry(polygon);
+    // Hit distances are in screen pixels, whatever the zoom
+    const zoom = canvas.getZoom();
+    const scenePoints = toScenePoints(polygon, polygon.points);
+    const vertexIndex = scenePoints.findIndex(
+      (pt) =>
+        Math.hypot(pt.x - pointer.x, pt.y - pointer.y) * zoom <=
+        VERTEX_HIT_RADIUS,
+    );
+
+    if (vertexIndex !== -1) {
+      // A polygon needs at least three vertices
+      if (polygon.points.length <= 3) return;
+      polygon.points.splice(vertexIndex, 1);
+    } else {
+      let nearestEdge = { distance: Infinity, index: -1 };
+      scenePoints.forEach((pt, i) => {
+        const next = scenePoints[(i + 1) % scenePoints.length] ?? pt;
+        const distance = distanceToSegment(pointer, pt, next);
+        if (distance < nearestEdge.distance) {
+          nearestEdge = { distance, index: i };
+        }
+      });
+      if (
+        nearestEdge.index === -1 ||
+        nearestEdge.distance * zoom > EDGE_HIT_DISTANCE
+      ) {
+        return;
+      }
+      polygon.points.splice(
+        nearestEdge.index + 1,
+        0,
+        toObjectPoint(polygon, pointer),
+      );
+    }
+
+    // Recompute the bounds while keeping the vertices where they are
+    polygon.setBoundingBox(true);
+    showVertexControls(polygon);
+    canvas.requestRenderAll();
+    onEdited(polygon, before);
+  };
+
+  canvas.on("selection:created", handleSelection);
+  canvas.on("selection:updated", handleSelection);
+  canvas.on("mouse:down", handleMouseDown);
+  canvas.on("mouse:dblclick", handleDoubleClick);
+  canvas.on("object:modified", handleModified);
+
+  return () => {
+    canvas.off("selection:created", handleSelection);
+    canvas.off("selection:updated", handleSelection);
+    canvas.off("mouse:down", handleMouseDown);
+    canvas.off("mouse:dblclick", handleDoubleClick);
+    canvas.off("object:modified", handleModified);
+    canvas.discardActiveObject();
+    setAnnotationsEditable(canvas, false);
+    canvas.requestRenderAll();
+  };
+}
+
+// -- Setup "polygon" tool, also used to draw the ring of the "hole" tool
+// Click to place points. Clicking the first point, double-clicking or
+// `closePolygonRef` (Enter) closes the shape and hands its points to
+// `onClose`. A preview follows the pointer: the next edge, the edge that
+// would close the shape, and a larger first point when a click would close
+// it. Returns a function that removes the handlers and the preview.
+function setupPolygonTool(
+  canvas: FabricCanvas,
+  // Colour of the points being placed; null while no class is picked
+  draftColor: string | null,
   currentPolygonPoints: React.MutableRefObject<Circle[]>,
   currentPolygonLines: React.MutableRefObject<Line[]>,
-  setAnnotations: React.Dispatch<React.SetStateAction<Annotation[]>>,
+  onClose: (points: Point2D[]) => void,
   handleMouseDownRef: React.MutableRefObject<
     ((opt: { e: TPointerEvent }) => void) | undefined
   >,
+  closePolygonRef: React.MutableRefObject<(() => void) | undefined>,
   CLOSE_THRESHOLD = 10,
 ) {
   canvas.isDrawingMode = false;
+  const outlineColor = hexToRgba(
+    draftColor ?? "#000000",
+    POLYGON_OUTLINE_OPACITY,
+  );
+  const previewOptions = { selectable: false, evented: false, visible: false };
+  const nextEdge = new Line([0, 0, 0, 0], {
+    ...previewOptions,
+    stroke: outlineColor,
+  });
+  const closingEdge = new Line([0, 0, 0, 0], {
+    ...previewOptions,
+    stroke: outlineColor,
+  });
+  let pointer: Point2D | null = null;
+  let active = true;
+
+  // Within CLOSE_THRESHOLD screen pixels of the first point, once a click
+  // there would close the polygon
+  const isNearFirstPoint = (point: Point2D) => {
+    const firstPt = currentPolygonPoints.current[0];
+    if (!firstPt || currentPolygonPoints.current.length < 3) return false;
+    const dx = point.x - firstPt.left;
+    const dy = point.y - firstPt.top;
+    // Compare in screen pixels so closing feels the same at any image size
+    return Math.sqrt(dx * dx + dy * dy) * canvas.getZoom() < CLOSE_THRESHOLD;
+  };
+
+  // The edges are only added to the canvas once shown: any object added
+  // to it clears the redo history
+  const showEdge = (
+    edge: Line,
+    from: Point2D,
+    to: Point2D,
+    options: Partial<Line>,
+  ) => {
+    edge.set({
+      ...options,
+      x1: from.x,
+      y1: from.y,
+      x2: to.x,
+      y2: to.y,
+      visible: true,
+    });
+    if (!canvas.contains(edge)) canvas.add(edge);
+  };
+
+  const updatePreview = () => {
+    if (!active) return;
+    const points = currentPolygonPoints.current;
+    const firstPt = points[0];
+    const lastPt = points[points.length - 1];
+    const zoom = canvas.getZoom();
+    const snapped = pointer !== null && isNearFirstPoint(pointer);
+
+    if (firstPt) {
+      firstPt.set({
+        radius: (snapped ? CLOSE_HIGHLIGHT_RADIUS : 3) / zoom,
+        strokeWidth: (snapped ? 2 : 1) / zoom,
+      });
+    }
+
+    nextEdge.set({ visible: false });
+    closingEdge.set({ visible: false });
+    if (firstPt && lastPt && pointer) {
+      const first = { x: firstPt.left, y: firstPt.top };
+      // The next edge snaps to the first point when a click would close
+      const end = snapped ? first : pointer;
+      showEdge(nextEdge, { x: lastPt.left, y: lastPt.top }, end, {
+        strokeWidth: 2 / zoom,
+      });
+      if (points.length > 1 && !snapped) {
+        showEdge(closingEdge, end, first, {
+          strokeWidth: 1 / zoom,
+          strokeDashArray: [4 / zoom, 4 / zoom],
+        });
+      }
+    }
+    canvas.requestRenderAll();
+  };
+
+  // Points also come and go through undo, redo and cancel; the lists of
+  // points are updated after the canvas, hence the delay
+  const handlePointsChanged = ({ target }: { target: FabricObject }) => {
+    if (target instanceof Circle) queueMicrotask(updatePreview);
+  };
+
+  // Removes the newest point with the line leading to it
+  const removeLastPoint = () => {
+    const circle = currentPolygonPoints.current.pop();
+    if (!circle) return;
+    canvas.remove(circle);
+    const lines = currentPolygonLines.current;
+    const line = lines[currentPolygonPoints.current.length - 1];
+    if (line) {
+      canvas.remove(line);
+      lines.pop();
+    }
+  };
+
+  // Hands the placed points over, once there are three
+  const closePolygon = () => {
+    if (currentPolygonPoints.current.length < 3) return;
+    const polygonPoints = currentPolygonPoints.current.map((pt) => ({
+      x: pt.left,
+      y: pt.top,
+    }));
+
+    // cleanup
+    currentPolygonPoints.current.forEach((pt) => canvas.remove(pt));
+    currentPolygonLines.current.forEach((ln) => canvas.remove(ln));
+    currentPolygonPoints.current = [];
+    currentPolygonLines.current = [];
+
+    onClose(polygonPoints);
+    canvas.requestRenderAll();
+  };
 
   const handleMouseDown = (options: { e: TPointerEvent }) => {
-    if (!selectedClass) {
+    if (!draftColor) {
       alert("Please select a class before drawing.");
       return;
     }
 
-    const pointer = canvas.getPointer(options.e);
+    const point = canvas.getPointer(options.e);
+    // A click on the first point closes the polygon instead of adding one
+    if (isNearFirstPoint(point)) {
+      closePolygon();
+      return;
+    }
+
+    // Markers are sized in screen pixels, whatever the image resolution
+    const zoom = canvas.getZoom();
     // 1) Create circle
     const circle = new Circle({
-      left: pointer.x,
-      top: pointer.y,
-      radius: 3,
-      fill: hexToRgba(
-        selectedClass.color ?? "#000000",
-        POLYGON_OUTLINE_OPACITY,
-      ),
+      left: point.x,
+      top: point.y,
+      radius: 3 / zoom,
+      fill: hexToRgba(draftColor, POLYGON_OUTLINE_OPACITY),
       stroke: "#ffffff",
-      strokeWidth: 1,
+      strokeWidth: 1 / zoom,
       selectable: false,
       originX: "center",
       originY: "center",
@@ -127,168 +813,465 @@ function setupPolygonTool(
       const line = new Line(
         [previous?.left ?? 0, previous?.top ?? 0, circle.left, circle.top],
         {
-          stroke: hexToRgba(
-            selectedClass.color ?? "#000000",
-            POLYGON_OUTLINE_OPACITY,
-          ),
-          strokeWidth: 2,
+          stroke: hexToRgba(draftColor, POLYGON_OUTLINE_OPACITY),
+          strokeWidth: 2 / zoom,
           selectable: false,
         },
       );
       canvas.add(line);
       currentPolygonLines.current.push(line);
     }
+    canvas.requestRenderAll();
+  };
 
-    // 3) Check if we should close polygon
-    if (currentPolygonPoints.current.length > 2) {
-      const firstPt = currentPolygonPoints.current[0];
-      const dx = pointer.x - (firstPt?.left ?? 0);
-      const dy = pointer.y - (firstPt?.top ?? 0);
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      if (distance < CLOSE_THRESHOLD) {
-        // remove last circle
-        canvas.remove(circle);
-        currentPolygonPoints.current.pop();
-
-        // add closing line
-        const prev =
-          currentPolygonPoints.current[currentPolygonPoints.current.length - 1];
-        const closingLine = new Line(
-          [
-            prev?.left ?? 0,
-            prev?.top ?? 0,
-            firstPt?.left ?? 0,
-            firstPt?.top ?? 0,
-          ],
-          {
-            stroke: hexToRgba(
-              selectedClass.color ?? "#000000",
-              POLYGON_OUTLINE_OPACITY,
-            ),
-            strokeWidth: 2,
-            selectable: false,
-          },
-        );
-        canvas.add(closingLine);
-        currentPolygonLines.current.push(closingLine);
-
-        // create polygon
-        const polygonPoints = currentPolygonPoints.current.map((pt) => ({
-          x: pt.left,
-          y: pt.top,
-        }));
-        const polygon = new Polygon(polygonPoints, {
-          fill: hexToRgba(selectedClass.color ?? "#f0f0f0", CONTENT_OPACITY),
-          stroke: hexToRgba(
-            selectedClass.color ?? "#000000",
-            POLYGON_OUTLINE_OPACITY,
-          ),
-          strokeWidth: 2,
-          selectable: false,
-        });
-        canvas.add(polygon);
-
-        // cleanup
-        currentPolygonPoints.current.forEach((pt) => canvas.remove(pt));
-        currentPolygonLines.current.forEach((ln) => canvas.remove(ln));
-        currentPolygonPoints.current = [];
-        currentPolygonLines.current = [];
-
+  const handleMouseMove = (options: { e: TPointerEvent }) => {
+    pointer = canvas.getPointer(options.e);
+    updatePreview();
+  };
 
-        setAnnotations((prev) => [
-          ...prev,
-          { type: "polygon", class: selectedClass, object: polygon },
-        ]);
-      }
-    }
+  // Each click of a double-click placed a point: the second one is dropped
+  // and the polygon closed on the first
+  const handleDoubleClick = () => {
+    removeLastPoint();
+    closePolygon();
     canvas.requestRenderAll();
   };
 
   handleMouseDownRef.current = handleMouseDown;
+  closePolygonRef.current = closePolygon;
   canvas.on("mouse:down", handleMouseDown);
+  canvas.on("mouse:move", handleMouseMove);
+  canvas.on("mouse:dblclick", handleDoubleClick);
+  canvas.on("object:added", handlePointsChanged);
+  canvas.on("object:removed", handlePointsChanged);
+
+  return () => {
+    active = false;
+    canvas.off("mouse:move", handleMouseMove);
+    canvas.off("mouse:dblclick", handleDoubleClick);
+    canvas.off("object:added", handlePointsChanged);
+    canvas.off("object:removed", handlePointsChanged);
+    canvas.remove(nextEdge, closingEdge);
+    canvas.requestRenderAll();
+  };
 }
 
 const CONTENT_OPACITY = 0.35;
 const POLYGON_OUTLINE_OPACITY = 0.8;
-
-const Canvas = forwardRef(
-  ({ tool, brushSize, imageUrl, selectedClass, classes }: CanvasProps, ref) => {
+// Points of a hole being drawn, which has no class colour
+const HOLE_DRAFT_COLOR = "#000000";
+// Radius in screen pixels of the first point when a click would close
+const CLOSE_HIGHLIGHT_RADIUS = 6;
+const ERASER_TRAIL_COLOR = "rgba(255, 255, 255, 0.6)";
+const DRAFT_OPACITY = 0.2;
+const MIN_BBOX_SIZE = 3;
+const VERTEX_HIT_RADIUS = 8;
+const EDGE_HIT_DISTANCE = 10;
+const MAX_HISTORY = 500;
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+// Zoom factor per wheel delta unit
+const WHEEL_ZOOM_STEP = 0.999;
+
+const Canvas = forwardRef<CanvasHandle, CanvasProps>(
+  (
+    {
+      tool,
+      brushSize,
+      image,
+      images,
+      selectedClass,
+      classes,
+      onChange,
+    }: CanvasProps,
+    ref,
+  ) => {
     const mainCanvasRef = useRef<FabricCanvas>();
     const containerRef = useRef<HTMLDivElement>(null);
     const currentImageRef = useRef<FabricImage | null>(null);
-    const historyRef = useRef<CanvasState[]>([]);
+    const historyRef = useRef<HistoryCommand[]>([]);
+    const redoStackRef = useRef<RedoEntry[]>([]);
     const currentPolygonPoints = useRef<Circle[]>([]);
     const currentPolygonLines = useRef<Line[]>([]);
     const isRestoringState = useRef(false);
     const [annotations, setAnnotations] = useState<Annotation[]>([]);
-    const [showAnnotationsOnTop, setShowAnnotationsOnTop] = useState(true);
+    const annotationsRef = useRef<Annotation[]>([]);
+    const sessionsRef = useRef(new Map<number, ImageSession>());
+    const activeSessionRef = useRef<ImageSession | null>(null);
     // References to event handlers so they can be removed
     const handleMouseDownRef = useRef<(options: fabric.IEvent) => void>();
     const handlePathCreatedRef = useRef<(e: { path: Path }) => void>();
+    const closePolygonRef = useRef<() => void>();
 
     const [showAnnotations, setShowAnnotations] = useState(false);
-    const [imageId, setImageId] = useState<number | null>(null);
-
-    const saveCanvasState = useCallback(() => {
-      if (!mainCanvasRef.current || isRestoringState.current) return;
-      const state = mainCanvasRef.current.toJSON() as CanvasState;
-
-      // Check if all objects are valid before saving
-      for (const obj of state.objects) {
-        const fillColor = typeof obj.fill === "string" ? obj.fill : "";
-        const strokeColor = typeof obj.stroke === "string" ? obj.stroke : "";
-      
-        const acceptedTypes =
-          // @ts-expect-errorts-ignore this line
-          obj?.type === "Polygon" && getAlpha(fillColor) === CONTENT_OPACITY ||
-          // @ts-expect-errorts-ignore this line
-          obj?.type === "Path" && getAlpha(strokeColor) === CONTENT_OPACITY;
-      
-        if (!acceptedTypes) {
-          return;
-        }
-      }
-      
-      // Check if the state is different from the last state and if the state is not empty to update history
-      if (
-        historyRef.current.length === 0 ||
-        state.objects.length !==
-          historyRef.current[historyRef.current.length - 1]?.objects.length
-      ) {
-        historyRef.current = [...historyRef.current, state];
-      }
+    // Annotations picked on the canvas or in the layers panel
+    const [selectedAnnotationIds, setSelectedAnnotationIds] = useState<
+      number[]
+    >([]);
+    // Bumped by every edit, so that the figures of the layers panel follow
+    // edits made in place
+    const [revision, setRevision] = useState(0);
+    const [zoom, setZoom] = useState(1);
+    // While true the image is refitted whenever the container is resized
+    const fitModeRef = useRef(true);
+    const imageId = image?.id ?? null;
+
+    useEffect(() => {
+      annotationsRef.current = annotations;
+    }, [annotations]);
+
+    const onChangeRef = useRef(onChange);
+    useEffect(() => {
+      onChangeRef.current = onChange;
+    }, [onChange]);
+
+    const classesRef = useRef(classes);
+    useEffect(() => {
+      classesRef.current = classes;
+    }, [classes]);
+
+    // Returns the session of a project image, loading the image on first use
+    const getSession = useCallback(
+      async (projectImage: ProjectImage): Promise<ImageSession> => {
+        const existing = sessionsRef.current.get(projectImage.id);
+        if (existing) return existing;
+
+        // Create a new HTML Image element
+        const img = new Image();
+
+        // Create a promise to handle image loading
+        await new Promise((resolve, reject) => {
+          img.onload = resolve;
+          img.onerror = reject;
+          img.src = projectImage.url;
+        });
+
+        // Another caller may have created it while the image was loading
+        const session = sessionsRef.current.get(projectImage.id) ?? {
+          image: new FabricImage(img),
+          annotations: [],
+          history: [],
+          redo: [],
+        };
+        sessionsRef.current.set(projectImage.id, session);
+        return session;
+      },
+      [],
+    );
 
-      // Keep only last 500 states
-      if (historyRef.current.length > 500) {
-        historyRef.current = historyRef.current.slice(-500);
+    // Records a step that has already been applied to the canvas
+    const recordCommand = useCallback((command: HistoryCommand) => {
+      historyRef.current.push(command);
+      if (historyRef.current.length > MAX_HISTORY) {
+        historyRef.current.shift();
       }
+      // A new action makes the undone ones unreachable
+      redoStackRef.current = [];
+      setRevision((prev) => prev + 1);
+      onChangeRef.current?.();
     }, []);
 
+    // Plays a command forward on the canvas and the annotation list; undo
+    // plays the inverted command
+    const applyCommand = useCallback(
+      (command: HistoryCommand) => {
+        const canvas = mainCanvasRef.current;
+        if (!canvas) return;
+        isRestoringState.current = true;
+
+        if (command.kind === "reclass") {
+          command.changes.forEach(({ annotationId, after }) => {
+            const annotation = findAnnotation(
+              annotationsRef.current,
+              annotationId,
+            );
+            if (!annotation) return;
+            annotation.class =
+              classesRef.current.find((cls) => cls.id === after) ?? null;
+            applyClassStyle(annotation);
+          });
+          const next = [...annotationsRef.current];
+          annotationsRef.current = next;
+          setAnnotations(next);
+        } else if (command.kind === "modify") {
+          const obj = findAnnotation(
+            annotationsRef.current,
+            command.annotationId,
+          )?.object;
+          if (obj) {
+            applyGeometry(obj, command.after);
+            if (obj instanceof Polygon && canvas.getActiveObject() === obj) {
+              showVertexControls(obj);
+            }
+          }
+        } else {
+          command.removed.forEach(({ annotation }) =>
+            canvas.remove(annotation.object),
+          );
+          const next = applyListChange(
+            annotationsRef.current,
+            command.removed,
+            command.added,
+          );
+          // Insert from the end so that the annotation that follows each one
+          // is already on the canvas, keeping the stacking order of the list
+          [...command.added]
+            .sort((a, b) => b.index - a.index)
+            .forEach(({ annotation, index }) => {
+              // Its class may have changed while it was off the canvas
+              relinkClass(annotation, classesRef.current);
+              setAnnotationEditable(annotation.object, tool === "edit");
+              const following = next[index + 1]?.object;
+              const position = following
+                ? canvas.getObjects().indexOf(following)
+                : -1;
+              if (position === -1) {
+                canvas.add(annotation.object);
+              } else {
+                canvas.insertAt(position, annotation.object);
+              }
+            });
+          annotationsRef.current = next;
+          setAnnotations(next);
+        }
+
+        canvas.requestRenderAll();
+        isRestoringState.current = false;
+        setRevision((prev) => prev + 1);
+        onChangeRef.current?.();
+      },
+      [tool],
+    );
+
+    // Adds an annotation the tools have just put on the canvas
+    const addAnnotation = useCallback(
+      (annotation: Annotation) => {
+        const index = annotationsRef.current.length;
+        const next = [...annotationsRef.current, annotation];
+        annotationsRef.current = next;
+        setAnnotations(next);
+        recordCommand({
+          kind: "change",
+          removed: [],
+          added: [{ annotation, index }],
+        });
+      },
+      [recordCommand],
+    );
+
+    const recordEdit = useCallback(
+      (obj: FabricObject, before: ObjectGeometry) => {
+        const annotation = findAnnotation(
+          annotationsRef.current,
+          obj.annotationId,
+        );
+        if (!annotation) return;
+        recordCommand({
+          kind: "modify",
+          annotationId: annotation.id,
+          before,
+          after: captureGeometry(obj),
+        });
+      },
+      [recordCommand],
+    );
+
+    // Removes the geometry under an eraser trail from every annotation it
+    // touches. Shapes split in several pieces become several annotations of
+    // the same class; fully erased shapes are dropped. An erased box is no
+    // longer a box, so what is left of it becomes polygons.
+    const eraseAlong = useCallback(
+      (trail: Point2D[], radius: number) => {
+        const canvas = mainCanvasRef.current;
+        if (!canvas || trail.length === 0) return;
+
+        const zoom = canvas.getZoom();
+        const eraserArea = bufferPolyline(trail, radius);
+        const removed: PlacedAnnotation[] = [];
+        const pieceAnnotations = new Set<Annotation>();
+
+        const nextAnnotations = annotationsRef.current.flatMap(
+          (annotation, index): Annotation[] => {
+            const obj = annotation.object;
+            // Locked and hidden annotations are left alone
+            if (obj.annotationLocked || !obj.visible) return [annotation];
+            let pieces: FabricObject[] | null = null;
+            let pieceType = annotation.type;
+            const erasePolygon = (shape: PolygonShape) =>
+              subtractFromPolygon(shape, eraserArea)?.map((remaining) =>
+                createClassPolygon(
+                  remaining.outer,
+                  annotation.class,
+                  zoom,
+                  remaining.holes,
+                ),
+              ) ?? null;
+
+            if (annotation.type === "polygon" && obj instanceof Polygon) {
+              const toScene = (ring: Point2D[]) => toScenePoints(obj, ring);
+              pieces = erasePolygon({
+                outer: toScene(obj.points),
+                holes:
+                  obj instanceof HoledPolygon ? obj.holes.map(toScene) : [],
+              });
+            } else if (annotation.type === "bbox") {
+              const rect = obj as Rect;
+              pieces = erasePolygon({ outer: getRectCorners(rect), holes: [] });
+              pieceType = "polygon";
+            } else if (annotation.type === "path") {
+              const stroke = obj as Path;
+              // Painted width of the stroke, in scene units
+              const halfWidth =
+                ((stroke.strokeWidth ?? 0) * (stroke.scaleX ?? 1)) / 2;
+              const runs = splitPolylineOutside(
+                toScenePoints(stroke, getPathPoints(stroke)),
+                trail,
+                radius,
+                halfWidth,
+              );
+              pieces =
+                runs?.map((run) => createStrokeLike(stroke, run)) ?? null;
+            }
+
+            if (!pieces) return [annotation];
+
+            // Replace the object in place to keep the stacking order
+            removed.push({ annotation, index });
+            const position = canvas.getObjects().indexOf(obj);
+            canvas.remove(obj);
+            if (pieces.length > 0) {
+              canvas.insertAt(Math.max(position, 0), ...pieces);
+            }
+            return pieces.map((piece) => {
+              const pieceAnnotation = createAnnotation(
+                pieceType,
+                annotation.class,
+                piece,
+              );
+              const { label, notes } = getAnnotationMeta(annotation);
+              setAnnotationMeta(pieceAnnotation, { label, notes });
+              pieceAnnotations.add(pieceAnnotation);
+              return pieceAnnotation;
+            });
+          },
+        );
+
+        if (removed.length === 0) return;
+        annotationsRef.current = nextAnnotations;
+        setAnnotations(nextAnnotations);
+        canvas.requestRenderAll();
+        recordCommand({
+          kind: "change",
+          removed,
+          added: nextAnnotations.flatMap((annotation, index) =>
+            pieceAnnotations.has(annotation) ? [{ annotation, index }] : [],
+          ),
+        });
+      },
+      [recordCommand],
+    );
+
+    // Cuts a ring out of the topmost visible, unlocked polygon it overlaps,
+    // in one undoable step: a hole when the ring lies inside the polygon, a
+    // notch when it crosses its edge
+    const cutHole = useCallback(
+      (ring: Point2D[]) => {
+        const canvas = mainCanvasRef.current;
+        if (!canvas) return;
+
+        const cutter = ringToArea(ring);
+        const objects = canvas.getObjects();
+        const candidates = annotationsRef.current
+          .filter(
+            ({ type, object }) =>
+              type === "polygon" &&
+              object instanceof Polygon &&
+              !object.annotationLocked &&
+              object.visible,
+          )
+          .sort(
+            (a, b) => objects.indexOf(b.object) - objects.indexOf(a.object),
+          );
+
+        for (const target of candidates) {
+          const obj = target.object as Polygon;
+          const toScene = (points: Point2D[]) => toScenePoints(obj, points);
+          const remaining = subtractFromPolygon(
+            {
+              outer: toScene(obj.points),
+              holes: obj instanceof HoledPolygon ? obj.holes.map(toScene) : [],
+            },
+            cutter,
+          );
+          if (!remaining) continue;
+
+          const zoom = canvas.getZoom();
+          const pieces = remaining.map((shape) =>
+            createClassPolygon(shape.outer, target.class, zoom, shape.holes),
+          );
+          const position = objects.indexOf(obj);
+          canvas.remove(obj);
+          if (pieces.length > 0) {
+            canvas.insertAt(Math.max(position, 0), ...pieces);
+          }
+
+          const index = annotationsRef.current.indexOf(target);
+          const { label, notes } = getAnnotationMeta(target);
+          const added = pieces.map((piece, i) => {
+            const annotation = createAnnotation("polygon", target.class, piece);
+            setAnnotationMeta(annotation, { label, notes });
+            return { annotation, index: index + i };
+          });
+          const next = [
+            ...annotationsRef.current.slice(0, index),
+            ...added.map(({ annotation }) => annotation),
+            ...annotationsRef.current.slice(index + 1),
+          ];
+          annotationsRef.current = next;
+          setAnnotations(next);
+          canvas.requestRenderAll();
+          recordCommand({
+            kind: "change",
+            removed: [{ annotation: target, index }],
+            added,
+          });
+          return;
+        }
+
+        toast.error("Draw the hole over a visible, unlocked polygon");
+      },
+      [recordCommand],
+    );
+
     const clearCanvas = useCallback(() => {
       if (!mainCanvasRef.current) return;
       mainCanvasRef.current.remove(...mainCanvasRef.current.getObjects());
     }, [mainCanvasRef]);
 
+    // Removes the newest point of the polygon being drawn, with the line
+    // leading to it, and returns them so that redo can put them back
     const removeLastLineAndCircle = useCallback(
-      (canvas: FabricCanvas, lines: Line[], circles: Circle[]): boolean => {
-        if (lines.length > 0) {
-          canvas.remove(lines[lines.length - 1] as unknown as Line); // Remove the last line
+      (
+        canvas: FabricCanvas,
+        lines: Line[],
+        circles: Circle[],
+      ): Extract<RedoEntry, { kind: "point" }> | null => {
+        const line = lines[lines.length - 1];
+        const circle = circles[circles.length - 1];
+        if (line) {
+          canvas.remove(line); // Remove the last line
           currentPolygonLines.current = [
             ...currentPolygonLines.current.slice(0, -1),
           ];
         }
 
-        if (circles.length > 0) {
-          canvas.remove(circles[circles.length - 1] as unknown as Circle); // Remove the last circle
+        if (circle) {
+          canvas.remove(circle); // Remove the last circle
           currentPolygonPoints.current = [
             ...currentPolygonPoints.current.slice(0, -1),
           ];
         }
-        if (lines.length === 0 && circles.length === 0) {
-          return true;
-        }
-        return false;
+        return circle ? { kind: "point", circle, line } : null;
       },
       [],
     );
@@ -297,87 +1280,55 @@ const Canvas = forwardRef(
       if (!mainCanvasRef.current) return;
       const canvas = mainCanvasRef.current;
 
-      // Always try to remove lines and circles of unfinished polygon
-      const lines = mainCanvasRef.current
-        ?.getObjects()
-        .filter((obj) => obj.type === "line");
-      const circles = mainCanvasRef.current
-        ?.getObjects()
-        .filter((obj) => obj.type === "circle");
-      if (lines?.length > 0 || circles?.length > 0) {
-        removeLastLineAndCircle(
-          mainCanvasRef.current,
-          lines as Line[],
-          circles as Circle[],
-        );
-        return;
-      }
-      // if the canvas is empty, do nothing
-      if (canvas.getObjects().length === 0) {
-        return;
-      }
-
-      if (historyRef.current.length <= 1) return;
-      isRestoringState.current = true;
-
-      // 1) Pop the newest state
-      const lastState = historyRef.current.pop();
-      if (!lastState?.objects?.length) {
-        isRestoringState.current = false;
+      // Always try to remove lines and circles of unfinished polygon. The
+      // lists are used rather than the canvas, which also holds the preview
+      // edges of the polygon tool.
+      const lines = currentPolygonLines.current;
+      const circles = currentPolygonPoints.current;
+      if (lines.length > 0 || circles.length > 0) {
+        const removed = removeLastLineAndCircle(canvas, lines, circles);
+        if (removed) {
+          redoStackRef.current.push(removed);
+        }
+        canvas.requestRenderAll();
         return;
       }
 
-      // 2) Check the last state's last object's type
-      const lastObj = lastState.objects[lastState.objects.length - 1];
-      const lastObjType = (lastObj as { type?: string })?.type;
-
-      // 4)  Remove the last annotation if it's a polygon or path
-      if (lastObjType === "Polygon" || lastObjType === "Path") {
-        setAnnotations((prev) => prev.slice(0, -1));
-      }
+      // Play the newest command backwards and keep it for redo
+      const command = historyRef.current.pop();
+      if (!command) return;
+      applyCommand(invertCommand(command));
+      redoStackRef.current.push({ kind: "command", command });
+    }, [removeLastLineAndCircle, applyCommand]);
 
-      // 5) Clear the canvas and load the now-top previous state
-      clearCanvas();
+    const redo = useCallback(() => {
+      const canvas = mainCanvasRef.current;
+      if (!canvas) return;
+      const entry = redoStackRef.current.pop();
+      if (!entry) return;
 
-      // 6) Get the previous state
-      const prevState = historyRef.current[historyRef.current.length - 1];
-      if (!prevState?.objects) {
+      if (entry.kind === "point") {
+        isRestoringState.current = true;
+        if (entry.line) {
+          canvas.add(entry.line);
+          currentPolygonLines.current = [
+            ...currentPolygonLines.current,
+            entry.line,
+          ];
+        }
+        canvas.add(entry.circle);
+        currentPolygonPoints.current = [
+          ...currentPolygonPoints.current,
+          entry.circle,
+        ];
         isRestoringState.current = false;
+        canvas.requestRenderAll();
         return;
       }
 
-      // 7) Re-create objects on canvas
-      void util.enlivenObjects(prevState.objects).then((objs) => {
-        objs.forEach((obj) => canvas.add(obj as FabricObject));
-        canvas.renderAll();
-
-        // 8) Rebuild "annotations" by scanning the newly added objects
-        const newAnnotations: Annotation[] = [];
-        for (const obj of canvas.getObjects()) {
-          if (obj.type === "polygon") {
-            newAnnotations.push({
-              type: "polygon",
-              class: getClassFromColor(classes, obj?.stroke as string)!,
-              object: obj,
-            });
-          } else if (obj.type === "path") {
-            newAnnotations.push({
-              type: "path",
-              class: getClassFromColor(classes, obj?.stroke as string)!,
-              object: obj,
-            });
-          }
-        }
-        setAnnotations(newAnnotations);
-        // Undo is complete; resume saving states normally
-        isRestoringState.current = false;
-      });
-
-      // if for some reason the undo failed, try again
-      if (canvas.getObjects().length === lastState.objects.length) {
-        undo();
-      }
-    }, [clearCanvas, removeLastLineAndCircle, classes]);
+      applyCommand(entry.command);
+      historyRef.current.push(entry.command);
+    }, [applyCommand]);
 
     // Remove temporary objects (lines/circles)
     const removeTemporaryObjects = useCallback((canvas: FabricCanvas) => {
@@ -387,43 +1338,366 @@ const Canvas = forwardRef(
       objectsToRemove.forEach((obj) => canvas.remove(obj));
     }, []);
 
-    const exportToCOCO = useCallback(() => {
+    const getAnnotatedImages = useCallback(() => {
       const canvas = mainCanvasRef.current;
       if (!canvas) {
         alert("Canvas is not initialized.");
-        return;
+        return null;
       }
-      removeTemporaryObjects(canvas);
-      const categoryMap = createCategoryMap(classes);
-      const annotationsData = buildAnnotationsData(
-        annotations,
-        categoryMap,
-        imageId,
-      );
-      const cocoData = buildCOCOData(
-        canvas,
-        annotationsData,
-        classes,
-        categoryMap,
-        imageId,
-      );
-      const validation = validateCOCO(cocoData);
-      if (!validation.success) {
-        toast.error(validation.message);
-        return;
+      if (images.length === 0) {
+        toast.error("Please upload an image before exporting");
+        return null;
       }
-      toast.success("COCO data is valid");
-      downloadJSONData(cocoData, "annotations.json");
-    }, [annotations, classes, imageId, removeTemporaryObjects]);
+      removeTemporaryObjects(canvas);
+      // The image on the canvas uses the live list, the others the list
+      // stored in their session
+      return images.flatMap((projectImage): AnnotatedImage[] => {
+        const session = sessionsRef.current.get(projectImage.id);
+        if (!session) return [];
+        return [
+          {
+            image: projectImage,
+            background: session.image,
+            annotations:
+              projectImage.id === imageId ? annotations : session.annotations,
+          },
+        ];
+      });
+    }, [annotations, imageId, images, removeTemporaryObjects]);
+
+    // Every image of the project goes into one file
+    const getCOCOData = useCallback(
+      (
+        brushMode: BrushExportMode,
+        holeMode: HoleExportMode,
+        dataset: DatasetInfo,
+      ) => {
+        const annotatedImages = getAnnotatedImages();
+        if (!annotatedImages) return null;
+        const categoryMap = createCategoryMap(classes);
+        const annotationsData = annotatedImages.flatMap((annotated) =>
+          buildAnnotationsData(
+            annotated.annotations,
+            categoryMap,
+            annotated.image.id,
+            annotated.background,
+            brushMode,
+            holeMode,
+          ),
+        );
+        return buildCOCOData(
+          images,
+          annotationsData,
+          classes,
+          categoryMap,
+          dataset,
+        );
+      },
+      [classes, getAnnotatedImages, images],
+    );
+
+    // Rebuilds editable polygons and boxes from a validated COCO file. COCO
+    // images are matched to project images by file name; a single-image file
+    // is applied to the current image when no name matches.
+    const importFromCOCO = useCallback(
+      async (
+        data: COCOImportData,
+        categoryToClass: Record<number, Class>,
+      ): Promise<CanvasImportResult> => {
+        const canvas = mainCanvasRef.current;
+        if (!canvas) return { imported: 0, skipped: 0, unmatchedImages: [] };
+
+        const zoom = canvas.getZoom();
+        let imported = 0;
+        let skipped = 0;
+        const unmatchedImages: string[] = [];
+
+        // COCO ids are kept unless an annotation anywhere in the project
+        // already has the same id (e.g. when importing the same file twice):
+        // the export and the layers panel rely on ids being unique
+        const takenIds = new Set(
+          [...sessionsRef.current].flatMap(([id, session]) =>
+            (id === imageId ? annotationsRef.current : session.annotations).map(
+              (annotation) => annotation.id,
+            ),
+          ),
+        );
+        const takeId = (id?: number) => {
+          let free = id ?? generateRandomId();
+          while (takenIds.has(free)) free = generateRandomId();
+          takenIds.add(free);
+          return free;
+        };
+
+        for (const cocoImage of data.images) {
+          const projectImage =
+            images.find((img) => img.name === cocoImage.file_name) ??
+            (data.images.length === 1 ? image : null);
+          if (!projectImage) {
+            unmatchedImages.push(cocoImage.file_name);
+            continue;
+          }
+
+          const session = await getSession(projectImage);
+          const current = projectImage.id === imageId;
+          const existing = current
+            ? annotationsRef.current
+            : session.annotations;
+          const newAnnotations: Annotation[] = [];
+          data.annotations
+            .filter((anno) => anno.image_id === cocoImage.id)
+            .forEach((anno) => {
+              const cls = categoryToClass[anno.category_id];
+              if (cls && isBBoxAnnotation(anno)) {
+                const [x = 0, y = 0, width = 0, height = 0] = anno.bbox;
+                const [a, b] = fromImagePoints(session.image, [
+                  { x, y },
+                  { x: x + width, y: y + height },
+                ]);
+                newAnnotations.push(
+                  createAnnotation(
+                    "bbox",
+                    cls,
+                    createClassRect(a!, b!, cls, zoom),
+                    takeId(anno.id),
+                  ),
+                );
+                imported++;
+                return;
+              }
+              const rings = segmentationToRings(anno);
+              if (!cls || rings.length === 0) {
+                skipped++;
+                return;
+              }
+              // Every part of a multi-polygon becomes its own polygon; the
+              // first part keeps the COCO id
+              rings.forEach((ring, i) => {
+                newAnnotations.push(
+                  createAnnotation(
+                    "polygon",
+                    cls,
+                    createClassPolygon(
+                      fromImagePoints(session.image, ring),
+                      cls,
+                      zoom,
+                    ),
+                    takeId(i === 0 ? anno.id : undefined),
+                  ),
+                );
+              });
+              imported++;
+            });
+
+          if (newAnnotations.length === 0) continue;
+
+          // The whole import of an image is undone in one step
+          const command: HistoryCommand = {
+            kind: "change",
+            removed: [],
+            added: newAnnotations.map((annotation, i) => ({
+              annotation,
+              index: existing.length + i,
+            })),
+          };
+          if (current) {
+            applyCommand(command);
+            recordCommand(command);
+          } else {
+            session.annotations = [...session.annotations, ...newAnnotations];
+            session.history.push(command);
+            session.redo = [];
+            onChangeRef.current?.();
+          }
+        }
+
+        canvas.requestRenderAll();
+        return { imported, skipped, unmatchedImages };
+      },
+      [applyCommand, getSession, image, imageId, images, recordCommand],
+    );
 
     const toggleAnnotationsView = () => {
       setShowAnnotations((prev) => !prev);
     };
 
+    // Follows renamed, recoloured and deleted classes on every image
+    useEffect(() => {
+      let changed = false;
+      sessionsRef.current.forEach((session) => {
+        if (session === activeSessionRef.current) return;
+        session.annotations.forEach((annotation) => {
+          changed = relinkClass(annotation, classes) || changed;
+        });
+      });
+      let activeChanged = false;
+      annotationsRef.current.forEach((annotation) => {
+        activeChanged = relinkClass(annotation, classes) || activeChanged;
+      });
+      if (activeChanged) {
+        const next = [...annotationsRef.current];
+        annotationsRef.current = next;
+        setAnnotations(next);
+        mainCanvasRef.current?.requestRenderAll();
+      }
+      if (changed || activeChanged) onChangeRef.current?.();
+    }, [classes]);
+
+    // How many annotations, and on how many images, use a class
+    const countClassUsage = useCallback((classId: number): ClassUsage => {
+      const usage = { annotations: 0, images: 0 };
+      sessionsRef.current.forEach((session) => {
+        const list =
+          session === activeSessionRef.current
+            ? annotationsRef.current
+            : session.annotations;
+        const count = list.filter(
+          (annotation) => annotation.class?.id === classId,
+        ).length;
+        usage.annotations += count;
+        if (count > 0) usage.images++;
+      });
+      return usage;
+    }, []);
+
+    // Before a class is deleted: moves its annotations on every image to
+    // `replacement`, or removes them when there is none. Both are undoable
+    // per image. Returns how many annotations were affected.
+    const removeClass = useCallback(
+      (classId: number, replacement: Class | null) => {
+        let affected = 0;
+        sessionsRef.current.forEach((session) => {
+          const active = session === activeSessionRef.current;
+          const list = active ? annotationsRef.current : session.annotations;
+          const removed = list.flatMap((annotation, index) =>
+            annotation.class?.id === classId ? [{ annotation, index }] : [],
+          );
+          if (replacement) {
+            // Earlier steps bring back the replacement instead
+            const history = active ? historyRef.current : session.history;
+            const redo = active ? redoStackRef.current : session.redo;
+            [
+              ...history,
+              ...redo.flatMap((entry) =>
+                entry.kind === "command" ? [entry.command] : [],
+              ),
+            ].forEach((command) =>
+              replaceClassInCommand(command, classId, replacement),
+            );
+          }
+          if (removed.length === 0) return;
+          affected += removed.length;
+
+          const command: HistoryCommand = replacement
+            ? {
+                kind: "reclass",
+                changes: removed.map(({ annotation }) => ({
+                  annotationId: annotation.id,
+                  before: classId,
+                  after: replacement.id,
+                })),
+              }
+            : { kind: "change", removed, added: [] };
+          if (active) {
+            applyCommand(command);
+            recordCommand(command);
+          } else {
+            if (replacement) {
+              removed.forEach(({ annotation }) => {
+                annotation.class = replacement;
+                applyClassStyle(annotation);
+              });
+            } else {
+              session.annotations = applyListChange(list, removed, []);
+            }
+            session.history.push(command);
+            session.redo = [];
+          }
+        });
+        mainCanvasRef.current?.requestRenderAll();
+        if (affected > 0) onChangeRef.current?.();
+        return affected;
+      },
+      [applyCommand, recordCommand],
+    );
+
+    // Annotations of every image, in the form kept by the session store
+    const serializeAnnotations = useCallback(() => {
+      const saved: Record<number, SavedAnnotation[]> = {};
+      sessionsRef.current.forEach((session, projectImageId) => {
+        const list =
+          session === activeSessionRef.current
+            ? annotationsRef.current
+            : session.annotations;
+        saved[projectImageId] = list.map((annotation) => ({
+          id: annotation.id,
+          type: annotation.type,
+          classId: annotation.class?.id ?? null,
+          object: annotation.object.toObject() as Record<string, unknown>,
+        }));
+      });
+      return saved;
+    }, []);
+
+    // Replaces the whole project with saved work. The image effect then
+    // shows the active image once the page passes it in.
+    const restoreProject = useCallback(
+      async (
+        projectImages: ProjectImage[],
+        saved: Record<number, SavedAnnotation[]>,
+        projectClasses: Class[],
+      ) => {
+        const canvas = mainCanvasRef.current;
+        if (!canvas) return;
+
+        isRestoringState.current = true;
+        clearCanvas();
+        canvas.backgroundImage = undefined;
+        canvas.requestRenderAll();
+        isRestoringState.current = false;
+        sessionsRef.current = new Map();
+        activeSessionRef.current = null;
+        currentImageRef.current = null;
+        annotationsRef.current = [];
+        setAnnotations([]);
+        historyRef.current = [];
+        redoStackRef.current = [];
+
+        for (const projectImage of projectImages) {
+          const entries = saved[projectImage.id] ?? [];
+          // Images without annotations are loaded when first opened
+          if (entries.length === 0) continue;
+          const session = await getSession(projectImage);
+          const objects = await util.enlivenObjects<FabricObject>(
+            entries.map((entry) => entry.object),
+          );
+          session.annotations = entries.flatMap((entry, i) => {
+            const obj = objects[i];
+            if (!obj) return [];
+            const cls =
+              projectClasses.find((item) => item.id === entry.classId) ??
+              null;
+            return [createAnnotation(entry.type, cls, obj, entry.id)];
+          });
+        }
+      },
+      [clearCanvas, getSession],
+    );
+
     useImperativeHandle(ref, () => ({
       undo,
-      exportToCOCO,
+      redo,
+      getCOCOData,
+      getAnnotatedImages,
+      importFromCOCO,
       toggleAnnotationsView,
+      serializeAnnotations,
+      restoreProject,
+      countClassUsage,
+      removeClass,
+      finishPolygon: () => closePolygonRef.current?.(),
+      cancelPolygon,
+      deleteSelection: () => removeAnnotations(selectedAnnotationIds),
     }));
 
     // Initialize canvas
@@ -438,132 +1712,251 @@ const Canvas = forwardRef(
       });
 
       const canvas = mainCanvasRef.current;
-      // Save state only when user finishes drawing
-      canvas.on("after:render", () => {
+
+      // Any new object (a polygon point, a stroke, an eraser trail...) starts
+      // a new action, after which the undone ones cannot be redone
+      canvas.on("object:added", () => {
         if (!isRestoringState.current) {
-          saveCanvasState();
+          redoStackRef.current = [];
         }
       });
 
-      // Save initial state
-      saveCanvasState();
-
       return () => {
         if (canvas) {
-          canvas.off("after:render");
+          canvas.off("object:added");
           void canvas.dispose();
         }
       };
     }, []);
 
-    // Add resize handler function
+    // Objects can be picked on the canvas with the edit tool
+    useEffect(() => {
+      const canvas = mainCanvasRef.current;
+      if (!canvas) return;
+      const handleSelection = () => {
+        const id = canvas.getActiveObject()?.annotationId;
+        setSelectedAnnotationIds(id === undefined ? [] : [id]);
+      };
+      const handleCleared = () => setSelectedAnnotationIds([]);
+      canvas.on("selection:created", handleSelection);
+      canvas.on("selection:updated", handleSelection);
+      canvas.on("selection:cleared", handleCleared);
+      return () => {
+        canvas.off("selection:created", handleSelection);
+        canvas.off("selection:updated", handleSelection);
+        canvas.off("selection:cleared", handleCleared);
+      };
+    }, []);
+
+    useEffect(() => {
+      setSelectedAnnotationIds([]);
+    }, [imageId]);
+
+    // Call after every viewport change
+    const syncZoom = useCallback((canvas: FabricCanvas) => {
+      scaleOverlaysToZoom(canvas);
+      setZoom(canvas.getZoom());
+      canvas.requestRenderAll();
+    }, []);
+
+    const zoomToFit = () => {
+      const canvas = mainCanvasRef.current;
+      if (!canvas || !currentImageRef.current) return;
+      fitImageToCanvas(canvas, currentImageRef.current);
+      fitModeRef.current = true;
+      syncZoom(canvas);
+    };
+
+    // Shows the image at its native resolution around the view centre
+    const zoomToActualSize = () => {
+      const canvas = mainCanvasRef.current;
+      if (!canvas) return;
+      canvas.zoomToPoint(
+        new Point(canvas.getWidth() / 2, canvas.getHeight() / 2),
+        1,
+      );
+      fitModeRef.current = false;
+      syncZoom(canvas);
+    };
+
+    // Fits the canvas to its container
     const handleResize = useCallback(() => {
       if (!mainCanvasRef.current || !containerRef.current) return;
-      
       const canvas = mainCanvasRef.current;
-      const container = containerRef.current;
-      
-      // Get container dimensions
-      const containerRect = container.getBoundingClientRect();
-      const newWidth = containerRect.width;
-      const newHeight = containerRect.height;
-      
-      // Update canvas dimensions
-      canvas.setDimensions({
-        width: newWidth,
-        height: newHeight
-      });
-      
-      // Re-scale background image if it exists
-      if (currentImageRef.current) {
-        const fabricImage = currentImageRef.current;
-        const canvasWidth = canvas.getWidth();
-        const canvasHeight = canvas.getHeight();
-
-        // Calculate scaling to fit the canvas while maintaining aspect ratio
-        const scaleX = canvasWidth / fabricImage.width;
-        const scaleY = canvasHeight / fabricImage.height;
-        const scale = Math.min(scaleX, scaleY);
-
-        // Configure image
-        fabricImage.set({
-          scaleX: scale,
-          scaleY: scale,
-          left: (canvasWidth - fabricImage.width * scale) / 2,
-          top: (canvasHeight - fabricImage.height * scale) / 2,
-          selectable: false,
-        });
-        
-        canvas.backgroundImage = fabricImage;
+      const { width, height } = containerRef.current.getBoundingClientRect();
+      canvas.setDimensions({ width, height });
+
+      // Re-fit the viewport unless the user zoomed in; annotations stay in
+      // image coordinates either way
+      if (currentImageRef.current && fitModeRef.current) {
+        fitImageToCanvas(canvas, currentImageRef.current);
       }
-      
+
+      syncZoom(canvas);
       canvas.renderAll();
-    }, []);
+    }, [syncZoom]);
 
-    // Add window resize listener
+    // Follow the container size, which also changes when the filmstrip
+    // appears or the window is resized
     useEffect(() => {
-      window.addEventListener('resize', handleResize);
-      
+      if (!containerRef.current) return;
+      const observer = new ResizeObserver(handleResize);
+      observer.observe(containerRef.current);
+
       // Also call on mount to ensure proper initial sizing
       const timeoutId = setTimeout(handleResize, 100);
-      
+
       return () => {
-        window.removeEventListener('resize', handleResize);
+        observer.disconnect();
         clearTimeout(timeoutId);
       };
     }, [handleResize]);
 
-    // Handle image loading
+    // The wheel zooms around the cursor; space+drag or middle-button drag
+    // pans. Pan listeners run in the capture phase so the active tool never
+    // sees the drag.
     useEffect(() => {
-      const loadImage = async () => {
-        if (!imageUrl || !mainCanvasRef.current) return;
+      const canvas = mainCanvasRef.current;
+      const container = containerRef.current;
+      if (!canvas || !container) return;
+      let spaceHeld = false;
+      let panFrom: { x: number; y: number } | null = null;
+
+      const handleWheel = (options: { e: WheelEvent }) => {
+        const event = options.e;
+        event.preventDefault();
+        event.stopPropagation();
+        canvas.zoomToPoint(
+          new Point(event.offsetX, event.offsetY),
+          clampZoom(canvas.getZoom() * WHEEL_ZOOM_STEP ** event.deltaY),
+        );
+        fitModeRef.current = false;
+        syncZoom(canvas);
+      };
 
-        try {
-          // Create a new HTML Image element
-          const img = new Image();
-
-          // Create a promise to handle image loading
-          await new Promise((resolve, reject) => {
-            img.onload = resolve;
-            img.onerror = reject;
-            img.src = imageUrl;
-          });
+      // Space is used for panning unless it is meant for a focused control,
+      // as shortcuts are
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.code !== "Space" || keyBelongsToTarget(event)) return;
+        event.preventDefault();
+        spaceHeld = true;
+      };
 
-          // Create Fabric Image from loaded HTML Image
-          const fabricImage = new FabricImage(img);
-          currentImageRef.current = fabricImage; // Store reference for resize handler
-
-          // Clear existing canvas
-          mainCanvasRef.current.clear();
-
-          // Get canvas dimensions
-          const canvasWidth = mainCanvasRef.current.getWidth();
-          const canvasHeight = mainCanvasRef.current.getHeight();
-
-          // Calculate scaling to fit the canvas while maintaining aspect ratio
-          const scaleX = canvasWidth / fabricImage.width;
-          const scaleY = canvasHeight / fabricImage.height;
-          const scale = Math.min(scaleX, scaleY);
-
-          // Configure image
-          fabricImage.set({
-            scaleX: scale,
-            scaleY: scale,
-            left: (canvasWidth - fabricImage.width * scale) / 2,
-            top: (canvasHeight - fabricImage.height * scale) / 2,
-            selectable: false,
-          });
+      const handleKeyUp = (event: KeyboardEvent) => {
+        if (event.code === "Space") spaceHeld = false;
+      };
+
+      const handlePointerDown = (event: PointerEvent) => {
+        if (!(event.button === 1 || (event.button === 0 && spaceHeld))) {
+          return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+        panFrom = { x: event.clientX, y: event.clientY };
+        container.setPointerCapture(event.pointerId);
+      };
+
+      const handlePointerMove = (event: PointerEvent) => {
+        if (!panFrom) return;
+        event.stopPropagation();
+        canvas.relativePan(
+          new Point(event.clientX - panFrom.x, event.clientY - panFrom.y),
+        );
+        panFrom = { x: event.clientX, y: event.clientY };
+        fitModeRef.current = false;
+        canvas.requestRenderAll();
+      };
+
+      const handlePointerUp = (event: PointerEvent) => {
+        if (!panFrom) return;
+        event.stopPropagation();
+        panFrom = null;
+        container.releasePointerCapture(event.pointerId);
+      };
+
+      // Stops the browser's middle-click autoscroll
+      const handleMouseDown = (event: MouseEvent) => {
+        if (event.button === 1) event.preventDefault();
+      };
+
+      canvas.on("mouse:wheel", handleWheel);
+      window.addEventListener("keydown", handleKeyDown);
+      window.addEventListener("keyup", handleKeyUp);
+      container.addEventListener("pointerdown", handlePointerDown, true);
+      container.addEventListener("pointermove", handlePointerMove, true);
+      container.addEventListener("pointerup", handlePointerUp, true);
+      container.addEventListener("mousedown", handleMouseDown, true);
+
+      return () => {
+        canvas.off("mouse:wheel", handleWheel);
+        window.removeEventListener("keydown", handleKeyDown);
+        window.removeEventListener("keyup", handleKeyUp);
+        container.removeEventListener("pointerdown", handlePointerDown, true);
+        container.removeEventListener("pointermove", handlePointerMove, true);
+        container.removeEventListener("pointerup", handlePointerUp, true);
+        container.removeEventListener("mousedown", handleMouseDown, true);
+      };
+    }, [syncZoom]);
 
-          // Add image to canvas
-          mainCanvasRef.current.backgroundImage = fabricImage;
-          setImageId(generateRandomId());
+    // Handle image switching: each project image keeps its own session
+    useEffect(() => {
+      const canvas = mainCanvasRef.current;
+      if (!image || !canvas) return;
+      // A new object for the image already shown (e.g. once it is saved to
+      // the server) keeps the view, selection and drawing as they are
+      const shown = activeSessionRef.current;
+      if (shown && shown === sessionsRef.current.get(image.id)) return;
+      let cancelled = false;
+
+      const loadImage = async () => {
+        try {
+          const session = await getSession(image);
+          // A newer image was selected while this one was loading
+          if (cancelled) return;
+
+          isRestoringState.current = true;
+
+          // Park the work of the previous image in its session
+          if (activeSessionRef.current) {
+            activeSessionRef.current.annotations = annotationsRef.current;
+            activeSessionRef.current.history = historyRef.current;
+            // Draft polygon points are dropped with the canvas content
+            activeSessionRef.current.redo = redoStackRef.current.filter(
+              (entry) => entry.kind === "command",
+            );
+          }
+          activeSessionRef.current = session;
+
+          // Swap the canvas content for the selected image
+          clearCanvas();
+          currentPolygonPoints.current = [];
+          currentPolygonLines.current = [];
+          currentImageRef.current = session.image; // Store reference for resize handler
+          fitImageToCanvas(canvas, session.image);
+          fitModeRef.current = true;
+          canvas.backgroundImage = session.image;
+          session.annotations.forEach((annotation) =>
+            canvas.add(annotation.object),
+          );
+          syncZoom(canvas);
+          historyRef.current = session.history;
+          redoStackRef.current = session.redo;
+          annotationsRef.current = session.annotations;
+          setAnnotations(session.annotations);
+          canvas.renderAll();
+
+          isRestoringState.current = false;
         } catch (error) {
+          isRestoringState.current = false;
           console.error("Error loading image:", error);
         }
       };
 
       void loadImage();
-    }, [imageUrl]);
+      return () => {
+        cancelled = true;
+      };
+    }, [image, clearCanvas, getSession, syncZoom]);
 
     // Tool handling, including adding annotations
     useEffect(() => {
@@ -583,30 +1976,56 @@ const Canvas = forwardRef(
       currentPolygonLines.current = [];
 
       // Set up tool
+      let teardownTool: (() => void) | undefined;
       if (tool === "brush") {
         setupBrushTool(
           canvas,
           brushSize,
           selectedClass,
-          setAnnotations,
+          addAnnotation,
           handlePathCreatedRef,
         );
       } else if (tool === "polygon") {
-        setupPolygonTool(
+        teardownTool = setupPolygonTool(
           canvas,
-          selectedClass,
+          selectedClass?.color ?? null,
           currentPolygonPoints,
           currentPolygonLines,
-          setAnnotations,
+          (points) => {
+            const polygon = createClassPolygon(
+              points,
+              selectedClass,
+              canvas.getZoom(),
+            );
+            canvas.add(polygon);
+            addAnnotation(createAnnotation("polygon", selectedClass, polygon));
+          },
           handleMouseDownRef,
+          closePolygonRef,
         );
+      } else if (tool === "hole") {
+        teardownTool = setupPolygonTool(
+          canvas,
+          HOLE_DRAFT_COLOR,
+          currentPolygonPoints,
+          currentPolygonLines,
+          cutHole,
+          handleMouseDownRef,
+          closePolygonRef,
+        );
+      } else if (tool === "bbox") {
+        teardownTool = setupBBoxTool(canvas, selectedClass, addAnnotation);
+      } else if (tool === "eraser") {
+        setupEraserTool(canvas, brushSize, eraseAlong, handlePathCreatedRef);
+      } else if (tool === "edit") {
+        teardownTool = setupEditTool(canvas, recordEdit);
       } else {
-        // default / eraser
         canvas.isDrawingMode = false;
       }
 
       // Clean up function when the component unmounts or tool changes
       return () => {
+        teardownTool?.();
         if (handleMouseDownRef.current) {
           canvas.off("mouse:down", handleMouseDownRef.current);
           handleMouseDownRef.current = undefined;
@@ -615,12 +2034,28 @@ const Canvas = forwardRef(
           canvas.off("path:created", handlePathCreatedRef.current);
           handlePathCreatedRef.current = undefined;
         }
+        closePolygonRef.current = undefined;
 
         // Clear temporary data
         currentPolygonPoints.current = [];
         currentPolygonLines.current = [];
       };
-    }, [tool, brushSize, selectedClass]);
+    }, [
+      tool,
+      brushSize,
+      selectedClass,
+      eraseAlong,
+      cutHole,
+      addAnnotation,
+      recordEdit,
+    ]);
+
+    // The size slider is in screen pixels, so the brush of the brush and
+    // eraser tools follows the zoom
+    useEffect(() => {
+      const brush = mainCanvasRef.current?.freeDrawingBrush;
+      if (brush) brush.width = brushSize / zoom;
+    }, [brushSize, zoom, tool]);
 
     // useEffect to remove temporary lines and circles when tool or selectedClass changes
     useEffect(() => {
@@ -639,31 +2074,144 @@ const Canvas = forwardRef(
       // Clear temporary data
       currentPolygonPoints.current = [];
       currentPolygonLines.current = [];
+      redoStackRef.current = redoStackRef.current.filter(
+        (entry) => entry.kind === "command",
+      );
     }, [tool, selectedClass]);
 
-    const removeAnnotation = (index: number) => {
-      setAnnotations((prevAnnotations) =>
-        prevAnnotations.filter((_, i) => i !== index),
+    // Drops the points of the polygon being drawn
+    const cancelPolygon = () => {
+      const canvas = mainCanvasRef.current;
+      if (!canvas) return;
+      canvas.remove(
+        ...currentPolygonPoints.current,
+        ...currentPolygonLines.current,
       );
+      currentPolygonPoints.current = [];
+      currentPolygonLines.current = [];
+      redoStackRef.current = redoStackRef.current.filter(
+        (entry) => entry.kind === "command",
+      );
+      canvas.requestRenderAll();
+    };
 
+    // One undoable step for all the annotations
+    const changeAnnotationClass = (ids: number[], cls: Class | null) => {
+      const changes = ids.flatMap((annotationId) => {
+        const annotation = findAnnotation(annotationsRef.current, annotationId);
+        if (!annotation || annotation.class?.id === cls?.id) return [];
+        return [
+          {
+            annotationId,
+            before: annotation.class?.id ?? null,
+            after: cls?.id ?? null,
+          },
+        ];
+      });
+      if (changes.length === 0) return;
+      const command: HistoryCommand = { kind: "reclass", changes };
+      applyCommand(command);
+      recordCommand(command);
+    };
+
+    // Centres the view on an object, zoomed so that it fills about half of
+    // the view
+    const zoomToObject = (obj: FabricObject) => {
       const canvas = mainCanvasRef.current;
       if (!canvas) return;
+      const box = obj.getBoundingRect();
+      const zoom = clampZoom(
+        Math.min(
+          canvas.getWidth() / Math.max(box.width * 2, 1),
+          canvas.getHeight() / Math.max(box.height * 2, 1),
+        ),
+      );
+      canvas.setViewportTransform([
+        zoom,
+        0,
+        0,
+        zoom,
+        canvas.getWidth() / 2 - (box.left + box.width / 2) * zoom,
+        canvas.getHeight() / 2 - (box.top + box.height / 2) * zoom,
+      ]);
+      fitModeRef.current = false;
+      syncZoom(canvas);
+    };
 
-      const objects = canvas.getObjects();
+    // Picks an annotation from the layers panel. A plain pick selects it
+    // alone and zooms to it (selecting it on the canvas with the edit tool);
+    // an additive pick toggles it in the selection.
+    const selectAnnotation = (id: number, additive: boolean) => {
+      const canvas = mainCanvasRef.current;
+      const obj = findAnnotation(annotationsRef.current, id)?.object;
+      if (!canvas || !obj) return;
+      if (additive) {
+        setSelectedAnnotationIds((prev) =>
+          prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+        );
+        return;
+      }
+      setSelectedAnnotationIds([id]);
+      if (obj.selectable && obj.visible) canvas.setActiveObject(obj);
+      zoomToObject(obj);
+    };
 
-      if (index >= 0 && index < objects.length && objects[index]) {
-        // Remove the object
-        canvas.remove(objects[index]);
-        saveCanvasState();
-        canvas.renderAll();
+    const updateAnnotationMeta = (
+      id: number,
+      meta: Partial<AnnotationMeta>,
+    ) => {
+      const canvas = mainCanvasRef.current;
+      const annotation = findAnnotation(annotationsRef.current, id);
+      if (!canvas || !annotation) return;
+      setAnnotationMeta(annotation, meta);
+      const { object } = annotation;
+      if (!object.visible || object.annotationLocked) {
+        if (canvas.getActiveObject() === object) canvas.discardActiveObject();
       }
+      setAnnotationEditable(object, tool === "edit");
+      canvas.requestRenderAll();
+      const next = [...annotationsRef.current];
+      annotationsRef.current = next;
+      setAnnotations(next);
+      onChangeRef.current?.();
     };
 
-    const annotationsClass = () => `
-    absolute w-full
-    ${showAnnotationsOnTop ? "top-0 left-0 h-14" : "bottom-14 md:bottom-0 left-0 h-14"} 
-    flex w-full flex-wrap shadow-lg bg-slate-200 border-black px-4 sm:px-6 overflow-auto max-h-14 
-  `;
+    // One undoable step for all the annotations
+    const removeAnnotations = (ids: number[]) => {
+      const removed = annotationsRef.current.flatMap((annotation, index) =>
+        ids.includes(annotation.id) ? [{ annotation, index }] : [],
+      );
+      if (removed.length === 0) return;
+      const command: HistoryCommand = { kind: "change", removed, added: [] };
+      applyCommand(command);
+      recordCommand(command);
+      setSelectedAnnotationIds((prev) =>
+        prev.filter((id) => !ids.includes(id)),
+      );
+    };
+
+    const layers = useMemo((): AnnotationLayer[] => {
+      const background = currentImageRef.current;
+      if (!showAnnotations || !background) return [];
+      return annotations.map((annotation) => ({
+        annotation,
+        ...measureAnnotationCached(annotation, background, revision),
+      }));
+    }, [annotations, showAnnotations, revision]);
+
+    const selectedAnnotation =
+      selectedAnnotationIds.length === 1
+        ? findAnnotation(annotations, selectedAnnotationIds[0])
+        : undefined;
+
+    // Dims the object of a list item while the pointer is over the item
+    const highlightAnnotation = (id: number, highlighted: boolean) => {
+      const canvas = mainCanvasRef.current;
+      const obj = findAnnotation(annotationsRef.current, id)?.object;
+      if (!canvas || !obj) return;
+      obj.set("opacity", highlighted ? 0.6 : 1);
+      canvas.renderAll();
+    };
 
     return (
       <div className="relative h-full w-full overflow-hidden">
@@ -674,58 +2222,56 @@ const Canvas = forwardRef(
         >
           <canvas id="mainCanvas" />
         </div>
-        {showAnnotations && (
-          <div className="h-screen w-full overflow-hidden">
-            <div className={annotationsClass()}>
-              {annotations.map((annotation, index) => (
-                <Button
-                  className="z-10 m-2 border border-slate-300 bg-slate-50 text-black hover:bg-slate-400"
-                  key={index}
-                  onMouseEnter={() => {
-                    const canvas = mainCanvasRef.current;
-                    if (!canvas) return;
-
-                    const objects = canvas.getObjects();
-                    if (
-                      index >= 0 &&
-                      index < objects.length &&
-                      objects[index]
-                    ) {
-                      objects[index].set("opacity", 0.6);
-                      canvas.renderAll();
-                    }
-                  }}
-                  onMouseLeave={() => {
-                    const canvas = mainCanvasRef.current;
-                    if (!canvas) return;
-
-                    const objects = canvas.getObjects();
-                    if (
-                      index >= 0 &&
-                      index < objects.length &&
-                      objects[index]
-                    ) {
-                      objects[index].set("opacity", 1);
-                      canvas.renderAll();
-                    }
-                  }}
-                  onClick={() => removeAnnotation(index)}
-                >
-                  <div
-                    className="flex h-3 w-3 rounded-full"
-                    style={{ backgroundColor: annotation.class?.color }}
-                  ></div>
-                  {annotation.class?.name} <FaTrash size={8} />
-                </Button>
-              ))}
-              <Button
-                className="m-2 bg-blue-300 hover:bg-blue-300"
-                onClick={() => setShowAnnotationsOnTop(!showAnnotationsOnTop)}
+        {image && (
+          <div
+            className={`absolute bottom-2 z-20 flex items-center gap-1 rounded-md bg-white/80 p-1 text-xs shadow ${
+              showAnnotations ? "right-[19rem]" : "right-2"
+            }`}
+          >
+            <Button size="sm" variant="ghost" onClick={zoomToFit}>
+              Fit
+            </Button>
+            <Button size="sm" variant="ghost" onClick={zoomToActualSize}>
+              100%
+            </Button>
+            <span className="w-12 text-center tabular-nums">
+              {Math.round(zoom * 100)}%
+            </span>
+          </div>
+        )}
+        {selectedAnnotation && (
+          <div className="absolute left-2 top-16 z-30 w-56 rounded-md bg-white/90 p-2 text-xs shadow">
+            <div className="mb-1 flex items-center justify-between">
+              <span>Class of the annotation</span>
+              <button
+                onClick={() => setSelectedAnnotationIds([])}
+                aria-label="Close"
               >
-                {" "}
-                {showAnnotationsOnTop ? "bottom" : "Top"}
-              </Button>
+                <FaTimes />
+              </button>
             </div>
+            <ClassPicker
+              classes={classes}
+              selectedClass={selectedAnnotation.class}
+              onClassSelect={(cls) =>
+                changeAnnotationClass([selectedAnnotation.id], cls)
+              }
+            />
+          </div>
+        )}
+        {showAnnotations && (
+          <div className="absolute right-0 top-0 z-20 h-full w-72 border-l border-slate-300 bg-slate-100 shadow-lg">
+            <AnnotationLayers
+              layers={layers}
+              classes={classes}
+              selectedIds={selectedAnnotationIds}
+              onSelect={selectAnnotation}
+              onSelectMany={setSelectedAnnotationIds}
+              onHover={highlightAnnotation}
+              onUpdate={updateAnnotationMeta}
+              onDelete={removeAnnotations}
+              onReclassify={changeAnnotationClass}
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,64 @@
+import React from "react";
+import { type CategoryRemap } from "~/utils/classUtils";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+
+interface CategoryRemapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  remap: CategoryRemap[];
+  onApply: () => void;
+}
+
+const CategoryRemapDialog = ({
+  open,
+  onOpenChange,
+  remap,
+  onApply,
+}: CategoryRemapDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Category ids differ</DialogTitle>
+          <DialogDescription>
+            The imported file uses other category ids for some classes. Use its
+            ids to export files that can be merged with it.
+          </DialogDescription>
+        </DialogHeader>
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr>
+              <th>Class</th>
+              <th>Project id</th>
+              <th>File id</th>
+            </tr>
+          </thead>
+          <tbody>
+            {remap.map((change) => (
+              <tr key={change.classId}>
+                <td>{change.name}</td>
+                <td>{change.from}</td>
+                <td>{change.to}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep project ids
+          </Button>
+          <Button onClick={onApply}>Use the file&apos;s ids</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryRemapDialog;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+import { FaArrowDown, FaArrowUp, FaTrash } from "react-icons/fa";
+import { type Class } from "~/Types/Class";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { findCategoryIdCollisions } from "~/utils/classUtils";
+
+interface ClassManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  classes: Class[];
+  onSave: (classes: Class[]) => void;
+  // Deleting asks what happens to the annotations, so it is not part of the
+  // edits saved together
+  onDelete: (cls: Class) => void;
+}
+
+interface ClassManagerFormProps {
+  classes: Class[];
+  onSave: (classes: Class[]) => void;
+  onDelete: (cls: Class) => void;
+}
+
+// Values shared by several classes, lowercased
+const duplicates = (values: string[]) =>
+  new Set(
+    values
+      .map((value) => value.toLowerCase())
+      .filter((value, i, all) => all.indexOf(value) !== i),
+  );
+
+// Mounted with the dialog content, so the draft starts over on every open
+const ClassManagerForm = ({
+  classes,
+  onSave,
+  onDelete,
+}: ClassManagerFormProps) => {
+  const [draft, setDraft] = useState(classes);
+
+  // Deleted classes leave the draft without losing the other edits
+  useEffect(() => {
+    setDraft((prev) =>
+      prev.filter((cls) => classes.some((item) => item.id === cls.id)),
+    );
+  }, [classes]);
+
+  const update = (id: number, changes: Partial<Class>) =>
+    setDraft((prev) =>
+      prev.map((cls) => (cls.id === id ? { ...cls, ...changes } : cls)),
+    );
+
+  const move = (index: number, offset: number) =>
+    setDraft((prev) => {
+      const next = [...prev];
+      const [cls] = next.splice(index, 1);
+      if (cls) next.splice(index + offset, 0, cls);
+      return next;
+    });
+
+  const duplicateNames = duplicates(draft.map((cls) => cls.name.trim()));
+  const duplicateColors = duplicates(draft.map((cls) => cls.color));
+  const collisions = findCategoryIdCollisions(draft);
+  const errors = [
+    draft.some((cls) => cls.name.trim() === "") && "Every class needs a name",
+    duplicateNames.size > 0 &&
+      `Several classes are named ${[...duplicateNames].join(", ")}`,
+    duplicateColors.size > 0 &&
+      `Several classes use the colour ${[...duplicateColors].join(", ")}`,
+    ...[...collisions].map(
+      ([categoryId, users]) =>
+        `Category id ${categoryId} is used by ${users.map((cls) => cls.name).join(", ")}`,
+    ),
+    draft.some(
+      (cls) => !Number.isInteger(cls.categoryId) || cls.categoryId < 1,
+    ) && "Category ids must be whole numbers from 1",
+  ].filter((error): error is string => Boolean(error));
+
+  return (
+    <>
+      <div className="grid max-h-[50vh] gap-2 overflow-y-auto">
+        <div className="flex gap-1 text-xs text-gray-600">
+          <span className="w-[4.5rem]" />
+          <span className="w-10">Colour</span>
+          <span className="flex-1">Name</span>
+          <span className="w-20">Category id</span>
+          <span className="flex-1">Supercategory</span>
+          <span className="w-10" />
+        </div>
+        {draft.map((cls, index) => (
+          <div key={cls.id} className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+              aria-label={`Move ${cls.name} up`}
+            >
+              <FaArrowUp />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={index === draft.length - 1}
+              onClick={() => move(index, 1)}
+              aria-label={`Move ${cls.name} down`}
+            >
+              <FaArrowDown />
+            </Button>
+            <input
+              type="color"
+              value={cls.color}
+              onChange={(e) => update(cls.id, { color: e.target.value })}
+              className="h-8 w-10 shrink-0 cursor-pointer"
+              aria-label={`Colour of ${cls.name}`}
+            />
+            <Input
+              value={cls.name}
+              onChange={(e) => update(cls.id, { name: e.target.value })}
+              aria-label="Class name"
+            />
+            <Input
+              type="number"
+              min={1}
+              value={Number.isNaN(cls.categoryId) ? "" : cls.categoryId}
+              onChange={(e) =>
+                update(cls.id, { categoryId: e.target.valueAsNumber })
+              }
+              className={`w-20 shrink-0 ${
+                collisions.has(cls.categoryId) ? "border-red-500" : ""
+              }`}
+              aria-label={`Category id of ${cls.name}`}
+            />
+            <Input
+              value={cls.supercategory}
+              onChange={(e) =>
+                update(cls.id, { supercategory: e.target.value })
+              }
+              placeholder="Supercategory"
+              aria-label={`Supercategory of ${cls.name}`}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onDelete(cls)}
+              aria-label={`Delete ${cls.name}`}
+            >
+              <FaTrash />
+            </Button>
+          </div>
+        ))}
+      </div>
+      {errors.map((error) => (
+        <p key={error} className="text-sm text-red-600">
+          {error}
+        </p>
+      ))}
+      <Button
+        disabled={errors.length > 0}
+        onClick={() =>
+          onSave(draft.map((cls) => ({ ...cls, name: cls.name.trim() })))
+        }
+      >
+        Save
+      </Button>
+    </>
+  );
+};
+
+const ClassManagerDialog = ({
+  open,
+  onOpenChange,
+  classes,
+  onSave,
+  onDelete,
+}: ClassManagerDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage classes</DialogTitle>
+          <DialogDescription>
+            Rename, recolour and reorder classes; annotations follow their
+            class. The order is the class index of YOLO and mask exports, and
+            the category id is written to COCO exports.
+          </DialogDescription>
+        </DialogHeader>
+        <ClassManagerForm
+          classes={classes}
+          onSave={onSave}
+          onDelete={onDelete}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClassManagerDialog;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+
+// An action offered by the palette
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  // Keyboard shortcut shown next to the label
+  shortcut?: string;
+  run: () => void;
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: PaletteCommand[];
+}
+
+const CommandPalette = ({
+  open,
+  onOpenChange,
+  commands,
+}: CommandPaletteProps) => {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+
+  useEffect(() => {
+    if (open) setQuery("");
+  }, [open]);
+
+  // Every word of the query must appear in the label
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = commands.filter((command) =>
+    words.every((word) => command.label.toLowerCase().includes(word)),
+  );
+
+  useEffect(() => {
+    setActive(0);
+  }, [query]);
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onOpenChange(false);
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((prev) => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(matches[active]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0">
+        <DialogHeader>
+          <DialogTitle>Commands</DialogTitle>
+          <DialogDescription>
+            Type to search, then press Enter to run.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search commands"
+          aria-label="Search commands"
+        />
+        <ul className="max-h-[50vh] overflow-y-auto" role="listbox">
+          {matches.map((command, index) => (
+            <li
+              key={command.id}
+              role="option"
+              aria-selected={index === active}
+              className={`flex cursor-pointer justify-between rounded px-2 py-1 text-sm ${
+                index === active ? "bg-blue-100" : ""
+              }`}
+              onMouseEnter={() => setActive(index)}
+              onClick={() => run(command)}
+            >
+              <span>{command.label}</span>
+              {command.shortcut && (
+                <kbd className="text-xs text-gray-500">{command.shortcut}</kbd>
+              )}
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="px-2 py-1 text-sm text-gray-500">No command</li>
+          )}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from "react";
+import { FaTrash } from "react-icons/fa";
+import { type DatasetInfo, type License } from "~/Types/DatasetInfo";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { LICENSE_CATALOGUE } from "~/utils/datasetUtils";
+
+interface DatasetSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dataset: DatasetInfo;
+  onSave: (dataset: DatasetInfo) => void;
+}
+
+// Next free license id; COCO license ids are small integers
+const nextLicenseId = (licenses: License[]) =>
+  Math.max(0, ...licenses.map((license) => license.id)) + 1;
+
+const DatasetSettingsDialog = ({
+  open,
+  onOpenChange,
+  dataset,
+  onSave,
+}: DatasetSettingsDialogProps) => {
+  const [draft, setDraft] = useState(dataset);
+
+  // Start from the saved settings every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(dataset);
+  }, [open, dataset]);
+
+  const setField =
+    (field: "description" | "contributor" | "version" | "url") =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setDraft((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const addLicense = (license: Omit<License, "id">) =>
+    setDraft((prev) => ({
+      ...prev,
+      licenses: [
+        ...prev.licenses,
+        { ...license, id: nextLicenseId(prev.licenses) },
+      ],
+    }));
+
+  const updateLicense = (id: number, changes: Partial<License>) =>
+    setDraft((prev) => ({
+      ...prev,
+      licenses: prev.licenses.map((license) =>
+        license.id === id ? { ...license, ...changes } : license,
+      ),
+    }));
+
+  const removeLicense = (id: number) =>
+    setDraft((prev) => ({
+      ...prev,
+      licenses: prev.licenses.filter((license) => license.id !== id),
+      imageLicenseId: prev.imageLicenseId === id ? null : prev.imageLicenseId,
+    }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dataset settings</DialogTitle>
+          <DialogDescription>
+            Written to the info and licenses of COCO exports, and saved with the
+            project.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid max-h-[60vh] gap-4 overflow-y-auto py-4">
+          <div className="grid gap-2">
+            <label htmlFor="datasetDescription">Description</label>
+            <Input
+              id="datasetDescription"
+              value={draft.description}
+              onChange={setField("description")}
+              placeholder="What the dataset contains"
+            />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="datasetContributor">Contributor</label>
+            <Input
+              id="datasetContributor"
+              value={draft.contributor}
+              onChange={setField("contributor")}
+              placeholder="Person or organisation"
+            />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="datasetVersion">Version</label>
+            <Input
+              id="datasetVersion"
+              value={draft.version}
+              onChange={setField("version")}
+              placeholder="1.0"
+            />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="datasetUrl">URL</label>
+            <Input
+              id="datasetUrl"
+              value={draft.url}
+              onChange={setField("url")}
+              placeholder="https://"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <p>Licenses</p>
+            {draft.licenses.map((license) => (
+              <div key={license.id} className="flex items-center gap-1">
+                <Input
+                  value={license.name}
+                  onChange={(e) =>
+                    updateLicense(license.id, { name: e.target.value })
+                  }
+                  placeholder="Name"
+                  aria-label="License name"
+                />
+                <Input
+                  value={license.url}
+                  onChange={(e) =>
+                    updateLicense(license.id, { url: e.target.value })
+                  }
+                  placeholder="https://"
+                  aria-label="License URL"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => removeLicense(license.id)}
+                  aria-label={`Remove ${license.name}`}
+                >
+                  <FaTrash />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-1">
+              <select
+                value=""
+                onChange={(e) => {
+                  const license = LICENSE_CATALOGUE[Number(e.target.value)];
+                  if (license) addLicense(license);
+                }}
+                className="w-full rounded border border-gray-400 p-1 text-sm"
+                aria-label="Add a common license"
+              >
+                <option value="">Add a common license...</option>
+                {LICENSE_CATALOGUE.map((license, index) => (
+                  <option key={license.url} value={index}>
+                    {license.name}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => addLicense({ name: "", url: "" })}
+              >
+                Custom
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <label htmlFor="imageLicense">License of the images</label>
+            <select
+              id="imageLicense"
+              value={draft.imageLicenseId ?? ""}
+              onChange={(e) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  imageLicenseId:
+                    e.target.value === "" ? null : Number(e.target.value),
+                }))
+              }
+              className="w-full rounded border border-gray-400 p-1 text-sm"
+            >
+              <option value="">None</option>
+              {draft.licenses.map((license) => (
+                <option key={license.id} value={license.id}>
+                  {license.name || `License ${license.id}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <Button onClick={() => onSave(draft)}>Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DatasetSettingsDialog;
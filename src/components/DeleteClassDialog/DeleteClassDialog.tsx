@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from "react";
+import { type Class } from "~/Types/Class";
+import { type ClassUsage } from "~/components/Canvas/Canvas";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+
+interface DeleteClassDialogProps {
+  // Class being deleted, or null when the dialog is closed
+  cls: Class | null;
+  // Annotations of the class, on every image
+  usage: ClassUsage;
+  classes: Class[];
+  onCancel: () => void;
+  onConfirm: (replacement: Class | null) => void;
+}
+
+const DeleteClassDialog = ({
+  cls,
+  usage,
+  classes,
+  onCancel,
+  onConfirm,
+}: DeleteClassDialogProps) => {
+  const others = classes.filter((item) => item.id !== cls?.id);
+  // Id of the class the annotations move to, or "" to delete them
+  const [replacementId, setReplacementId] = useState("");
+
+  useEffect(() => {
+    setReplacementId("");
+  }, [cls]);
+
+  return (
+    <Dialog open={cls !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete &quot;{cls?.name}&quot;</DialogTitle>
+          <DialogDescription>
+            {usage.annotations === 0
+              ? "No annotation uses this class."
+              : `${usage.annotations} annotation(s) on ${usage.images} image(s) use this class.`}
+          </DialogDescription>
+        </DialogHeader>
+        {usage.annotations > 0 && (
+          <select
+            value={replacementId}
+            onChange={(e) => setReplacementId(e.target.value)}
+            className="w-full rounded border border-gray-400 p-1 text-sm"
+            aria-label="What happens to the annotations"
+          >
+            <option value="">Delete the annotations (can be undone)</option>
+            {others.map((item) => (
+              <option key={item.id} value={item.id}>
+                Move them to {item.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() =>
+              onConfirm(
+                others.find((item) => String(item.id) === replacementId) ??
+                  null,
+              )
+            }
+          >
+            Delete class
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeleteClassDialog;
@@ -0,0 +1,84 @@
+import Image from "next/image";
+import React, { useEffect, useRef } from "react";
+import { FaChevronLeft, FaChevronRight } from "react-icons/fa";
+import { type ProjectImage } from "~/Types/ProjectImage";
+
+interface FilmstripProps {
+  images: ProjectImage[];
+  activeImageId: number | null;
+  onSelect: (imageId: number) => void;
+}
+
+const Filmstrip = ({ images, activeImageId, onSelect }: FilmstripProps) => {
+  const activeThumbRef = useRef<HTMLButtonElement>(null);
+  const activeIndex = images.findIndex((image) => image.id === activeImageId);
+
+  // Keep the active thumbnail in view when navigating with the arrows
+  useEffect(() => {
+    activeThumbRef.current?.scrollIntoView({
+      behavior: "smooth",
+      block: "nearest",
+      inline: "nearest",
+    });
+  }, [activeImageId]);
+
+  const selectByOffset = (offset: number) => {
+    const next = images[activeIndex + offset];
+    if (next) {
+      onSelect(next.id);
+    }
+  };
+
+  return (
+    <div className="flex h-24 w-full items-center gap-2 border-t border-gray-300 bg-slate-100 px-2">
+      <button
+        className="rounded bg-gray-300 p-2 text-black hover:bg-[#a2c2dc] disabled:opacity-50"
+        onClick={() => selectByOffset(-1)}
+        disabled={activeIndex <= 0}
+        aria-label="Previous image"
+      >
+        <FaChevronLeft />
+      </button>
+      <div className="flex h-full flex-1 items-center gap-2 overflow-x-auto">
+        {images.map((image, index) => {
+          const isActive = image.id === activeImageId;
+          return (
+            <button
+              key={image.id}
+              ref={isActive ? activeThumbRef : undefined}
+              className={`relative h-20 w-28 shrink-0 overflow-hidden rounded border-2 ${isActive ? "border-black" : "border-transparent hover:border-[#a2c2dc]"}`}
+              onClick={() => onSelect(image.id)}
+              title={image.name}
+            >
+              {/* Object and data URLs cannot go through the image optimizer */}
+              <Image
+                src={image.url}
+                alt={image.name}
+                fill
+                unoptimized
+                sizes="7rem"
+                className="object-cover"
+              />
+              <span className="absolute bottom-0 left-0 w-full truncate bg-black/50 px-1 text-left text-[10px] text-white">
+                {index + 1}. {image.name}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <span className="whitespace-nowrap text-xs text-gray-600">
+        {activeIndex + 1} / {images.length}
+      </span>
+      <button
+        className="rounded bg-gray-300 p-2 text-black hover:bg-[#a2c2dc] disabled:opacity-50"
+        onClick={() => selectByOffset(1)}
+        disabled={activeIndex === -1 || activeIndex >= images.length - 1}
+        aria-label="Next image"
+      >
+        <FaChevronRight />
+      </button>
+    </div>
+  );
+};
+
+export default Filmstrip;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  DEFAULT_HOTKEYS,
+  HOTKEY_LABELS,
+  type HotkeyAction,
+  type HotkeyBindings,
+  eventToBinding,
+  findHotkeyAction,
+  formatBindings,
+} from "~/utils/hotkeys";
+
+interface HotkeySettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: HotkeyBindings;
+  onSave: (bindings: HotkeyBindings) => void;
+}
+
+const HotkeySettingsDialog = ({
+  open,
+  onOpenChange,
+  bindings,
+  onSave,
+}: HotkeySettingsDialogProps) => {
+  const [draft, setDraft] = useState(bindings);
+  // Action waiting for its new key
+  const [recording, setRecording] = useState<HotkeyAction | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(bindings);
+    setRecording(null);
+    setMessage("");
+  }, [open, bindings]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!recording) return;
+    e.preventDefault();
+    e.stopPropagation();
+    // Escape alone cancels, unless it is being bound
+    if (e.key === "Escape" && recording !== "cancelPolygon") {
+      setRecording(null);
+      return;
+    }
+    const binding = eventToBinding(e);
+    if (!binding) return;
+
+    // A key does one thing: it is taken from the action that had it
+    const previous = findHotkeyAction(draft, binding);
+    setDraft((prev) => {
+      const next = { ...prev, [recording]: [binding] };
+      if (previous && previous !== recording) {
+        next[previous] = prev[previous].filter((item) => item !== binding);
+      }
+      return next;
+    });
+    setMessage(
+      previous && previous !== recording
+        ? `${binding} no longer does "${HOTKEY_LABELS[previous]}"`
+        : "",
+    );
+    setRecording(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-h-[80vh] overflow-y-auto"
+        onKeyDown={handleKeyDown}
+        // Escape is a key like any other while recording
+        onEscapeKeyDown={(e) => recording && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut, then press the new key. Keys 1 to 9 select the
+            classes in order.
+          </DialogDescription>
+        </DialogHeader>
+        <table className="w-full text-left text-sm">
+          <tbody>
+            {(Object.keys(HOTKEY_LABELS) as HotkeyAction[]).map((action) => (
+              <tr key={action}>
+                <td className="py-1">{HOTKEY_LABELS[action]}</td>
+                <td className="py-1 text-right">
+                  <Button
+                    size="sm"
+                    variant={recording === action ? "default" : "outline"}
+                    onClick={() => setRecording(action)}
+                  >
+                    {recording === action
+                      ? "Press a key..."
+                      : formatBindings(draft[action]) || "None"}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {message && <p className="text-sm text-amber-700">{message}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setDraft(DEFAULT_HOTKEYS)}>
+            Reset to defaults
+          </Button>
+          <Button onClick={() => onSave(draft)}>Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HotkeySettingsDialog;
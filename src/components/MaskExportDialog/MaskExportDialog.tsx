@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { type MaskOptions } from "~/utils/maskUtils";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+
+interface MaskExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exporting: boolean;
+  onExport: (options: MaskOptions) => void;
+}
+
+const MaskExportDialog = ({
+  open,
+  onOpenChange,
+  exporting,
+  onExport,
+}: MaskExportDialogProps) => {
+  const [options, setOptions] = useState<MaskOptions>({
+    instances: false,
+    preview: true,
+  });
+
+  const toggle = (option: keyof MaskOptions) =>
+    setOptions((prev) => ({ ...prev, [option]: !prev[option] }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export masks</DialogTitle>
+          <DialogDescription>
+            One PNG per image at its original size, where every pixel holds the
+            class index of the annotation on top (0 for background).
+          </DialogDescription>
+        </DialogHeader>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={options.instances}
+            onChange={() => toggle("instances")}
+          />
+          Also export a mask per annotation
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={options.preview}
+            onChange={() => toggle("preview")}
+          />
+          Also export previews in the class colours
+        </label>
+        <Button disabled={exporting} onClick={() => onExport(options)}>
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MaskExportDialog;
@@ -0,0 +1,109 @@
+import React from "react";
+import toast from "react-hot-toast";
+import { FaTrash } from "react-icons/fa";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { api } from "~/trpc/react";
+
+interface ServerProjectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentProjectId: number | null;
+  onOpen: (projectId: number) => void;
+}
+
+// Lists the projects stored on the server so any annotator can pick one up
+const ServerProjectsDialog = ({
+  open,
+  onOpenChange,
+  currentProjectId,
+  onOpen,
+}: ServerProjectsDialogProps) => {
+  const projects = api.projects.list.useQuery(undefined, {
+    enabled: open,
+    staleTime: 0,
+  });
+  const deleteProject = api.projects.delete.useMutation({
+    onSuccess: () => void projects.refetch(),
+    onError: () => toast.error("The project could not be deleted"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Open from server</DialogTitle>
+          <DialogDescription>
+            Projects saved to the server by you or your team.
+          </DialogDescription>
+        </DialogHeader>
+        {projects.isLoading && <p className="text-sm">Loading projects...</p>}
+        {projects.isError && (
+          <p className="text-sm text-red-600">
+            The server projects could not be loaded.
+          </p>
+        )}
+        {projects.data?.length === 0 && (
+          <p className="text-sm">No projects on the server yet.</p>
+        )}
+        {projects.data && projects.data.length > 0 && (
+          <ul className="grid max-h-[50vh] gap-2 overflow-y-auto">
+            {projects.data.map((project) => {
+              const isCurrent = project.id === currentProjectId;
+              return (
+                <li
+                  key={project.id}
+                  className="flex items-center justify-between gap-2 rounded-md border border-gray-300 p-2"
+                >
+                  <div className="min-w-0 text-sm">
+                    <p className="truncate font-medium">{project.name}</p>
+                    <p className="text-xs text-gray-500">
+                      updated {new Date(project.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-xs text-gray-500">Current</span>
+                  ) : (
+                    <div className="flex shrink-0 gap-1">
+                      <Button size="sm" onClick={() => onOpen(project.id)}>
+                        Open
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={deleteProject.isPending}
+                        onClick={() => {
+                          if (
+                            window.confirm(
+                              `Delete "${project.name}" from the server for everyone?`,
+                            )
+                          ) {
+                            deleteProject.mutate({ id: project.id });
+                          }
+                        }}
+                        aria-label={`Delete ${project.name}`}
+                      >
+                        <FaTrash />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Close
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ServerProjectsDialog;
@@ -0,0 +1,94 @@
+import React from "react";
+import { FaTrash } from "react-icons/fa";
+import { type SavedSession } from "~/Types/SavedSession";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessions: SavedSession[];
+  currentSessionId: number | null;
+  onResume: (session: SavedSession) => void;
+  onDelete: (session: SavedSession) => void;
+}
+
+const countAnnotations = (session: SavedSession) =>
+  Object.values(session.annotations).reduce(
+    (total, annotations) => total + annotations.length,
+    0,
+  );
+
+const SessionsDialog = ({
+  open,
+  onOpenChange,
+  sessions,
+  currentSessionId,
+  onResume,
+  onDelete,
+}: SessionsDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Resume previous session</DialogTitle>
+          <DialogDescription>
+            Your work is saved in this browser as you annotate.
+          </DialogDescription>
+        </DialogHeader>
+        {sessions.length === 0 ? (
+          <p className="text-sm">No saved sessions.</p>
+        ) : (
+          <ul className="grid max-h-[50vh] gap-2 overflow-y-auto">
+            {sessions.map((session) => {
+              const isCurrent = session.id === currentSessionId;
+              return (
+                <li
+                  key={session.id}
+                  className="flex items-center justify-between gap-2 rounded-md border border-gray-300 p-2"
+                >
+                  <div className="min-w-0 text-sm">
+                    <p className="truncate font-medium">{session.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {session.images.length} image(s),{" "}
+                      {countAnnotations(session)} annotation(s) · saved{" "}
+                      {new Date(session.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-xs text-gray-500">Current</span>
+                  ) : (
+                    <div className="flex shrink-0 gap-1">
+                      <Button size="sm" onClick={() => onResume(session)}>
+                        Resume
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onDelete(session)}
+                        aria-label={`Delete ${session.name}`}
+                      >
+                        <FaTrash />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          {currentSessionId === null ? "Start a new session" : "Close"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionsDialog;
@@ -0,0 +1,83 @@
+import React from "react";
+import { type COCOValidationIssue } from "~/utils/COCOSchema";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+
+interface ValidationReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  issues: COCOValidationIssue[];
+}
+
+// Issues of the same annotation are listed together; the rest of the file
+// comes first
+const groupIssues = (issues: COCOValidationIssue[]) => {
+  const groups = new Map<number | undefined, COCOValidationIssue[]>();
+  issues.forEach((issue) => {
+    groups.set(issue.annotationId, [
+      ...(groups.get(issue.annotationId) ?? []),
+      issue,
+    ]);
+  });
+  return [...groups.entries()].sort(
+    ([a], [b]) => (a === undefined ? 0 : 1) - (b === undefined ? 0 : 1),
+  );
+};
+
+const ValidationReportDialog = ({
+  open,
+  onOpenChange,
+  title,
+  issues,
+}: ValidationReportDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {issues.length} problem(s) found in the COCO data.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="grid max-h-[50vh] gap-2 overflow-y-auto">
+          {groupIssues(issues).map(([annotationId, group]) => (
+            <li
+              key={annotationId ?? "file"}
+              className="rounded-md border border-gray-300 p-2 text-sm"
+            >
+              <p className="font-medium">
+                {annotationId === undefined
+                  ? "File"
+                  : `Annotation ${annotationId}`}
+              </p>
+              <ul className="mt-1 grid gap-1">
+                {group.map((issue, index) => (
+                  <li key={index}>
+                    {issue.message}
+                    {issue.path && (
+                      <span className="ml-1 text-xs text-gray-500">
+                        ({issue.path})
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Close
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ValidationReportDialog;
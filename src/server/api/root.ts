@@ -1,3 +1,6 @@
+import { annotationsRouter } from "~/server/api/routers/annotations";
+import { imagesRouter } from "~/server/api/routers/images";
+import { projectsRouter } from "~/server/api/routers/projects";
 import { validationRouter } from "~/server/api/routers/validation";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
@@ -8,6 +11,9 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
   validation: validationRouter,
+  projects: projectsRouter,
+  images: imagesRouter,
+  annotations: annotationsRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,91 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  getImage,
+  getImageAnnotations,
+  savedAnnotationSchema,
+  saveImageAnnotations,
+} from "~/server/storage/fileStore";
+
+// Annotations are stored per image, so every procedure names its image
+const imageInput = z.object({ imageId: z.number() });
+
+async function requireImageAnnotations(imageId: number) {
+  if (!(await getImage(imageId))) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Image not found" });
+  }
+  return getImageAnnotations(imageId);
+}
+
+function annotationNotFound(): never {
+  throw new TRPCError({ code: "NOT_FOUND", message: "Annotation not found" });
+}
+
+export const annotationsRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(imageInput)
+    .query(({ input }) => requireImageAnnotations(input.imageId)),
+
+  get: publicProcedure
+    .input(imageInput.extend({ id: z.number() }))
+    .query(async ({ input }) => {
+      const annotations = await requireImageAnnotations(input.imageId);
+      return (
+        annotations.find((annotation) => annotation.id === input.id) ??
+        annotationNotFound()
+      );
+    }),
+
+  create: publicProcedure
+    .input(imageInput.extend({ annotation: savedAnnotationSchema }))
+    .mutation(async ({ input }) => {
+      const annotations = await requireImageAnnotations(input.imageId);
+      if (annotations.some((item) => item.id === input.annotation.id)) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "An annotation with this id already exists",
+        });
+      }
+      await saveImageAnnotations(input.imageId, [
+        ...annotations,
+        input.annotation,
+      ]);
+      return input.annotation;
+    }),
+
+  update: publicProcedure
+    .input(imageInput.extend({ annotation: savedAnnotationSchema }))
+    .mutation(async ({ input }) => {
+      const annotations = await requireImageAnnotations(input.imageId);
+      const index = annotations.findIndex(
+        (item) => item.id === input.annotation.id,
+      );
+      if (index === -1) annotationNotFound();
+      await saveImageAnnotations(
+        input.imageId,
+        annotations.map((item, i) => (i === index ? input.annotation : item)),
+      );
+      return input.annotation;
+    }),
+
+  delete: publicProcedure
+    .input(imageInput.extend({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const annotations = await requireImageAnnotations(input.imageId);
+      await saveImageAnnotations(
+        input.imageId,
+        annotations.filter((item) => item.id !== input.id),
+      );
+      return { id: input.id };
+    }),
+
+  // Replaces every annotation of an image, as saved from the canvas
+  replace: publicProcedure
+    .input(imageInput.extend({ annotations: z.array(savedAnnotationSchema) }))
+    .mutation(async ({ input }) => {
+      await requireImageAnnotations(input.imageId);
+      await saveImageAnnotations(input.imageId, input.annotations);
+      return { count: input.annotations.length };
+    }),
+});
@@ -0,0 +1,94 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  deleteImage,
+  getImage,
+  getProject,
+  listImages,
+  saveImage,
+} from "~/server/storage/fileStore";
+import { generateRandomId } from "~/utils/uuid";
+
+// Uploads arrive as base64 data URLs ("data:image/png;base64,..."). Only
+// raster image types are accepted, since the type is served back as is.
+const DATA_URL_PATTERN =
+  /^data:(image\/(?:png|jpeg|gif|webp|bmp|avif));base64,(.*)$/;
+
+export const imagesRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(({ input }) => listImages(input.projectId)),
+
+  get: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const image = await getImage(input.id);
+      if (!image) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Image not found" });
+      }
+      return image;
+    }),
+
+  // The file itself is served by /api/images/[id]
+  create: publicProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        name: z.string().min(1),
+        width: z.number().positive(),
+        height: z.number().positive(),
+        capturedAt: z.string().optional(),
+        dataUrl: z.string(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      if (!(await getProject(input.projectId))) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+      const match = DATA_URL_PATTERN.exec(input.dataUrl);
+      if (!match) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "Image data must be a base64 PNG, JPEG, GIF, WebP, BMP or AVIF data URL",
+        });
+      }
+      const [, mimeType = "application/octet-stream", base64 = ""] = match;
+      const image = {
+        id: generateRandomId(),
+        projectId: input.projectId,
+        name: input.name,
+        width: input.width,
+        height: input.height,
+        capturedAt: input.capturedAt,
+        mimeType,
+        createdAt: Date.now(),
+      };
+      await saveImage(image, Buffer.from(base64, "base64"));
+      return image;
+    }),
+
+  update: publicProcedure
+    .input(z.object({ id: z.number(), name: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      const image = await getImage(input.id);
+      if (!image) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Image not found" });
+      }
+      const updated = { ...image, name: input.name };
+      await saveImage(updated);
+      return updated;
+    }),
+
+  // Also removes the annotations of the image
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      await deleteImage(input.id);
+      return { id: input.id };
+    }),
+});
@@ -0,0 +1,88 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  classSchema,
+  datasetSchema,
+  deleteProject,
+  getProject,
+  listImages,
+  listProjects,
+  saveProject,
+} from "~/server/storage/fileStore";
+import { generateRandomId } from "~/utils/uuid";
+
+export const projectsRouter = createTRPCRouter({
+  list: publicProcedure.query(() => listProjects()),
+
+  // The project together with its images, in upload order
+  get: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const project = await getProject(input.id);
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+      return { ...project, images: await listImages(project.id) };
+    }),
+
+  create: publicProcedure
+    .input(
+      z.object({
+        name: z.string().min(1),
+        classes: z.array(classSchema),
+        dataset: datasetSchema.optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const now = Date.now();
+      const project = {
+        id: generateRandomId(),
+        name: input.name,
+        classes: input.classes,
+        dataset: input.dataset,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await saveProject(project);
+      return project;
+    }),
+
+  update: publicProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        name: z.string().min(1).optional(),
+        classes: z.array(classSchema).optional(),
+        dataset: datasetSchema.optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const project = await getProject(input.id);
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+      const updated = {
+        ...project,
+        name: input.name ?? project.name,
+        classes: input.classes ?? project.classes,
+        dataset: input.dataset ?? project.dataset,
+        updatedAt: Date.now(),
+      };
+      await saveProject(updated);
+      return updated;
+    }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      await deleteProject(input.id);
+      return { id: input.id };
+    }),
+});
@@ -0,0 +1,204 @@
+import "server-only";
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+
+import { env } from "~/env";
+
+/**
+ * Project storage on the local file system, laid out as:
+ *
+ *   <DATA_DIR>/projects/<projectId>.json
+ *   <DATA_DIR>/images/<imageId>.json        (metadata)
+ *   <DATA_DIR>/images/<imageId>.bin         (uploaded file)
+ *   <DATA_DIR>/annotations/<imageId>.json   (annotations of one image)
+ *
+ * Every write goes through a temporary file and a rename, so that readers
+ * never see a half-written record.
+ */
+
+export const classSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  // Missing in projects saved before classes had a COCO category
+  categoryId: z.number().int().positive().optional(),
+  supercategory: z.string().optional(),
+});
+
+export const datasetSchema = z.object({
+  description: z.string(),
+  contributor: z.string(),
+  version: z.string(),
+  url: z.string(),
+  licenses: z.array(
+    z.object({ id: z.number(), name: z.string(), url: z.string() }),
+  ),
+  imageLicenseId: z.number().nullable(),
+});
+
+export const savedAnnotationSchema = z.object({
+  id: z.number(),
+  type: z.enum(["polygon", "path", "bbox"]),
+  classId: z.number().nullable(),
+  object: z.record(z.unknown()),
+});
+
+export type StoredProject = {
+  id: number;
+  name: string;
+  classes: z.infer<typeof classSchema>[];
+  // Missing in projects saved before dataset settings existed
+  dataset?: z.infer<typeof datasetSchema>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type StoredImage = {
+  id: number;
+  projectId: number;
+  name: string;
+  width: number;
+  height: number;
+  capturedAt?: string;
+  mimeType: string;
+  createdAt: number;
+};
+
+export type StoredAnnotation = z.infer<typeof savedAnnotationSchema>;
+
+const root = path.resolve(env.DATA_DIR);
+const projectsDir = path.join(root, "projects");
+const imagesDir = path.join(root, "images");
+const annotationsDir = path.join(root, "annotations");
+
+function isMissingFile(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+async function readJSON<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+}
+
+async function writeAtomically(file: string, data: string | Uint8Array) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(temporary, data);
+  await rename(temporary, file);
+}
+
+async function readAllJSON<T>(dir: string): Promise<T[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readJSON<T>(path.join(dir, file))),
+  );
+  return records.filter((record): record is Awaited<T> => record !== null);
+}
+
+// -- Projects
+
+export async function listProjects(): Promise<StoredProject[]> {
+  const projects = await readAllJSON<StoredProject>(projectsDir);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getProject(id: number): Promise<StoredProject | null> {
+  return readJSON<StoredProject>(path.join(projectsDir, `${id}.json`));
+}
+
+export async function saveProject(project: StoredProject): Promise<void> {
+  await writeAtomically(
+    path.join(projectsDir, `${project.id}.json`),
+    JSON.stringify(project),
+  );
+}
+
+// Removes the project with all of its images and their annotations
+export async function deleteProject(id: number): Promise<void> {
+  const images = await listImages(id);
+  await Promise.all(images.map((image) => deleteImage(image.id)));
+  await rm(path.join(projectsDir, `${id}.json`), { force: true });
+}
+
+// -- Images
+
+export async function listImages(projectId: number): Promise<StoredImage[]> {
+  const images = await readAllJSON<StoredImage>(imagesDir);
+  return images
+    .filter((image) => image.projectId === projectId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function getImage(id: number): Promise<StoredImage | null> {
+  return readJSON<StoredImage>(path.join(imagesDir, `${id}.json`));
+}
+
+// The file is written first so that listed images always have their data
+export async function saveImage(
+  image: StoredImage,
+  data?: Uint8Array,
+): Promise<void> {
+  if (data) {
+    await writeAtomically(path.join(imagesDir, `${image.id}.bin`), data);
+  }
+  await writeAtomically(
+    path.join(imagesDir, `${image.id}.json`),
+    JSON.stringify(image),
+  );
+}
+
+export async function readImageData(
+  id: number,
+): Promise<{ data: Buffer; mimeType: string } | null> {
+  const image = await getImage(id);
+  if (!image) return null;
+  try {
+    const data = await readFile(path.join(imagesDir, `${id}.bin`));
+    return { data, mimeType: image.mimeType };
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+}
+
+export async function deleteImage(id: number): Promise<void> {
+  await rm(path.join(imagesDir, `${id}.json`), { force: true });
+  await rm(path.join(imagesDir, `${id}.bin`), { force: true });
+  await rm(path.join(annotationsDir, `${id}.json`), { force: true });
+}
+
+// -- Annotations
+
+export async function getImageAnnotations(
+  imageId: number,
+): Promise<StoredAnnotation[]> {
+  return (
+    (await readJSON<StoredAnnotation[]>(
+      path.join(annotationsDir, `${imageId}.json`),
+    )) ?? []
+  );
+}
+
+export async function saveImageAnnotations(
+  imageId: number,
+  annotations: StoredAnnotation[],
+): Promise<void> {
+  await writeAtomically(
+    path.join(annotationsDir, `${imageId}.json`),
+    JSON.stringify(annotations),
+  );
+}
@@ -1,7 +1,12 @@
 "use client";
 
 import { QueryClientProvider, type QueryClient } from "@tanstack/react-query";
-import { loggerLink, unstable_httpBatchStreamLink } from "@trpc/client";
+import {
+  httpLink,
+  loggerLink,
+  splitLink,
+  unstable_httpBatchStreamLink,
+} from "@trpc/client";
 import { createTRPCReact } from "@trpc/react-query";
 import { type inferRouterInputs, type inferRouterOutputs } from "@trpc/server";
 import { useState } from "react";
@@ -36,8 +41,25 @@ export type RouterInputs = inferRouterInputs<AppRouter>;
  */
 export type RouterOutputs = inferRouterOutputs<AppRouter>;
 
+/**
+ * Call context of requests that are sent on their own instead of in a
+ * batch, such as image uploads.
+ *
+ * @example api.images.create.mutate(input, { context: UNBATCHED })
+ */
+export const UNBATCHED = { skipBatch: true };
+
 export function TRPCReactProvider(props: { children: React.ReactNode }) {
   const queryClient = getQueryClient();
+  const httpOptions = {
+    transformer: SuperJSON,
+    url: getBaseUrl() + "/api/trpc",
+    headers: () => {
+      const headers = new Headers();
+      headers.set("x-trpc-source", "nextjs-react");
+      return headers;
+    },
+  };
 
   const [trpcClient] = useState(() =>
     api.createClient({
@@ -47,14 +69,10 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
             process.env.NODE_ENV === "development" ||
             (op.direction === "down" && op.result instanceof Error),
         }),
-        unstable_httpBatchStreamLink({
-          transformer: SuperJSON,
-          url: getBaseUrl() + "/api/trpc",
-          headers: () => {
-            const headers = new Headers();
-            headers.set("x-trpc-source", "nextjs-react");
-            return headers;
-          },
+        splitLink({
+          condition: (op) => op.context.skipBatch === true,
+          true: httpLink(httpOptions),
+          false: unstable_httpBatchStreamLink(httpOptions),
         }),
       ],
     })
@@ -0,0 +1,221 @@
+import { z } from "zod";
+
+/**
+ * COCO file schema and checks, shared by the client and the validation
+ * router. Keep this module free of browser-only imports.
+ */
+
+// How far a bbox may stick out of its image before it is reported, to allow
+// for floating point rounding
+const BOUNDS_TOLERANCE = 1e-6;
+
+// Optional links may be left empty
+const urlSchema = z.string().url().or(z.literal(""));
+
+const infoSchema = z.object({
+  description: z.string(),
+  url: urlSchema,
+  version: z.string(),
+  year: z.number(),
+  contributor: z.string(),
+  date_created: z.string(),
+});
+
+const licenseSchema = z.object({
+  url: urlSchema,
+  id: z.number(),
+  name: z.string(),
+});
+
+const imageSchema = z.object({
+  license: z.number().optional(),
+  file_name: z.string(),
+  coco_url: z.string().optional(),
+  height: z.number(),
+  width: z.number(),
+  date_captured: z.string().optional(),
+  flickr_url: z.string().optional(),
+  id: z.number(),
+});
+
+// Run-length encoded mask, as used by crowd annotations; other tools may
+// write the compressed string form of the counts
+const rleSchema = z.object({
+  counts: z.union([z.array(z.number()), z.string()]),
+  size: z.tuple([z.number(), z.number()]),
+});
+
+const annotationSchema = z.object({
+  segmentation: z.union([
+    z.array(z.union([z.array(z.number()), z.array(z.array(z.number()))])),
+    rleSchema,
+  ]),
+  area: z.number(),
+  iscrowd: z.number(),
+  image_id: z.number(),
+  bbox: z.array(z.number()).length(4), // Ensures bbox has exactly 4 numbers
+  category_id: z.number(),
+  id: z.number(),
+});
+
+const categorySchema = z.object({
+  supercategory: z.string(),
+  id: z.number(),
+  name: z.string(),
+});
+
+// Main COCO Schema
+export const cocoSchema = z.object({
+  info: infoSchema,
+  licenses: z.array(licenseSchema),
+  images: z.array(imageSchema),
+  annotations: z.array(annotationSchema),
+  categories: z.array(categorySchema),
+});
+
+export type COCOData = z.infer<typeof cocoSchema>;
+export type COCOImportedAnnotation = z.infer<typeof annotationSchema>;
+
+export type COCOValidationIssue = {
+  // Location of the offending value, e.g. "annotations.3.bbox"
+  path: string;
+  // Set when the issue belongs to a single annotation
+  annotationId?: number;
+  message: string;
+};
+
+export type COCOValidationResult = {
+  valid: boolean;
+  issues: COCOValidationIssue[];
+};
+
+// Reads the id of the annotation a schema error points into, if it has one
+function annotationIdAt(data: unknown, path: (string | number)[]) {
+  const [collection, index] = path;
+  if (collection !== "annotations" || typeof index !== "number") return;
+  const annotations = (data as { annotations?: unknown })?.annotations;
+  if (!Array.isArray(annotations)) return;
+  const id = (annotations[index] as { id?: unknown } | undefined)?.id;
+  return typeof id === "number" ? id : undefined;
+}
+
+/**
+ * Checks what the schema cannot express: references between images,
+ * categories and annotations, unique ids, and annotation geometry.
+ */
+export function checkCOCOSemantics(data: COCOData): COCOValidationIssue[] {
+  const issues: COCOValidationIssue[] = [];
+
+  const licenseIds = new Set(data.licenses.map((license) => license.id));
+  const images = new Map<number, COCOData["images"][number]>();
+  data.images.forEach((image, index) => {
+    if (images.has(image.id)) {
+      issues.push({
+        path: `images.${index}.id`,
+        message: `Duplicate image id ${image.id}`,
+      });
+    }
+    if (image.license !== undefined && !licenseIds.has(image.license)) {
+      issues.push({
+        path: `images.${index}.license`,
+        message: `License ${image.license} does not exist`,
+      });
+    }
+    images.set(image.id, image);
+  });
+
+  const categoryIds = new Set<number>();
+  data.categories.forEach((category, index) => {
+    if (categoryIds.has(category.id)) {
+      issues.push({
+        path: `categories.${index}.id`,
+        message: `Duplicate category id ${category.id}`,
+      });
+    }
+    categoryIds.add(category.id);
+  });
+
+  const annotationIds = new Set<number>();
+  data.annotations.forEach((annotation, index) => {
+    const report = (field: string, message: string) =>
+      issues.push({
+        path: `annotations.${index}.${field}`,
+        annotationId: annotation.id,
+        message,
+      });
+
+    if (annotationIds.has(annotation.id)) {
+      report("id", `Duplicate annotation id ${annotation.id}`);
+    }
+    annotationIds.add(annotation.id);
+
+    const image = images.get(annotation.image_id);
+    if (!image) {
+      report("image_id", `Image ${annotation.image_id} does not exist`);
+    }
+    if (!categoryIds.has(annotation.category_id)) {
+      report(
+        "category_id",
+        `Category ${annotation.category_id} does not exist (is the annotation missing a class?)`,
+      );
+    }
+
+    const [x = 0, y = 0, width = 0, height = 0] = annotation.bbox;
+    if (width <= 0 || height <= 0) {
+      report("bbox", `Bounding box is ${width}x${height}`);
+    } else if (
+      image &&
+      (x < -BOUNDS_TOLERANCE ||
+        y < -BOUNDS_TOLERANCE ||
+        x + width > image.width + BOUNDS_TOLERANCE ||
+        y + height > image.height + BOUNDS_TOLERANCE)
+    ) {
+      report(
+        "bbox",
+        `Bounding box [${annotation.bbox.join(", ")}] lies outside the ${image.width}x${image.height} image`,
+      );
+    }
+
+    const { segmentation } = annotation;
+    if (image && !Array.isArray(segmentation)) {
+      const [rleHeight, rleWidth] = segmentation.size;
+      if (rleHeight !== image.height || rleWidth !== image.width) {
+        report(
+          "segmentation.size",
+          `RLE size ${rleHeight}x${rleWidth} does not match the ${image.height}x${image.width} image`,
+        );
+      } else if (Array.isArray(segmentation.counts)) {
+        const pixels = segmentation.counts.reduce((sum, run) => sum + run, 0);
+        if (pixels !== image.width * image.height) {
+          report(
+            "segmentation.counts",
+            `RLE covers ${pixels} pixels instead of ${image.width * image.height}`,
+          );
+        }
+      }
+    }
+
+    if (!(annotation.area > 0)) {
+      report("area", `Area is ${annotation.area}`);
+    }
+  });
+
+  return issues;
+}
+
+// Schema check followed, once the shape is right, by the semantic checks
+export function validateCOCO(data: unknown): COCOValidationResult {
+  const parsed = cocoSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      issues: parsed.error.errors.map((error) => ({
+        path: error.path.join("."),
+        annotationId: annotationIdAt(data, error.path),
+        message: error.message,
+      })),
+    };
+  }
+  const issues = checkCOCOSemantics(parsed.data);
+  return { valid: issues.length === 0, issues };
+}
@@ -1,140 +1,110 @@
-import { z } from "zod";
 import type { Class } from "~/Types/Class";
+import type { DatasetInfo } from "~/Types/DatasetInfo";
+import type { ProjectImage } from "~/Types/ProjectImage";
 import {
+  type FabricImage,
   type FabricObject,
   type Path,
   type Polygon,
-  type Canvas as FabricCanvas,
+  type Rect,
+  Point,
+  util,
 } from "fabric";
-import { generateRandomId } from "~/utils/uuid";
+import { bridgeHoles, strokeOutline } from "~/utils/geometryUtils";
+import { HoledPolygon } from "~/utils/holedPolygon";
+import type { COCOImportedAnnotation } from "~/utils/COCOSchema";
+import {
+  type PixelRegion,
+  rasteriseAnnotation,
+  regionAround,
+} from "~/utils/rasterUtils";
+
+// Uncompressed COCO run-length encoding: alternating runs of background and
+// foreground pixels, column by column, starting with background
+export type COCORLE = { counts: number[]; size: [number, number] };
+
+// How brush strokes are exported: as a mask (RLE, iscrowd 1) or traced into
+// outline polygons
+export type BrushExportMode = "rle" | "polygon";
+
+// How polygons with holes are exported: as one ring with the holes bridged
+// into it, or as a mask (RLE, iscrowd 0) that leaves the holes empty
+export type HoleExportMode = "polygon" | "rle";
 
 export interface COCOAnnotation {
   id: number;
   image_id: number | null;
   category_id: number | null;
-  segmentation: number[][];
+  segmentation: number[][] | COCORLE;
   area: number;
   bbox: [number, number, number, number];
   iscrowd: number;
 }
 
 export type Annotation = {
-  type: "polygon" | "path";
+  // Persistent ID, also stored on the fabric object and exported as the COCO
+  // annotation id
+  id: number;
+  type: "polygon" | "path" | "bbox";
   class: Class | null;
   object: FabricObject;
 };
 
-// Define COCO Schema
-const infoSchema = z.object({
-  description: z.string(),
-  url: z.string().url(),
-  version: z.string(),
-  year: z.number(),
-  contributor: z.string(),
-  date_created: z.string(),
-});
-
-const licenseSchema = z.object({
-  url: z.string().url(),
-  id: z.number(),
-  name: z.string(),
-});
-
-const imageSchema = z.object({
-  license: z.number(),
-  file_name: z.string(),
-  coco_url: z.string().url(),
-  height: z.number(),
-  width: z.number(),
-  date_captured: z.string(),
-  flickr_url: z.string().url(),
-  id: z.number(),
-});
-
-const annotationSchema = z.object({
-  segmentation: z.array(
-    z.union([z.array(z.number()), z.array(z.array(z.number()))]),
-  ),
-  area: z.number(),
-  iscrowd: z.number(),
-  image_id: z.number(),
-  bbox: z.array(z.number()).length(4), // Ensures bbox has exactly 4 numbers
-  category_id: z.number(),
-  id: z.number(),
-});
-
-const categorySchema = z.object({
-  supercategory: z.string(),
-  id: z.number(),
-  name: z.string(),
-});
-
-// Main COCO Schema
-const cocoSchema = z.object({
-  info: infoSchema,
-  licenses: z.array(licenseSchema),
-  images: z.array(imageSchema),
-  annotations: z.array(annotationSchema),
-  categories: z.array(categorySchema),
-});
-
-// Utility function to validate COCO schema
-export const validateCOCO = (data: unknown) => {
-  try {
-    cocoSchema.parse(data); // This will throw if data is invalid
-    return { success: true, message: "Validation successful!" };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return {
-        success: false,
-        message: "Validation failed",
-        details: error.errors,
-      };
-    }
-    return { success: false, message: "Unexpected error during validation" };
-  }
+// One project image with its annotations, as handed to the exporters
+export type AnnotatedImage = {
+  image: ProjectImage;
+  // Background of the image on the canvas, which maps scene to image pixels
+  background: FabricImage;
+  annotations: Annotation[];
+};
+
+// What the importer needs from a COCO file; other formats convert into it
+export type COCOImportData = {
+  images: { id: number; file_name: string }[];
+  annotations: COCOImportedAnnotation[];
+  categories: { id: number; name: string; supercategory?: string }[];
 };
 
+export type Point2D = { x: number; y: number };
+
 export function buildCOCOData(
-  canvas: FabricCanvas,
+  projectImages: ProjectImage[],
   annotationsData: COCOAnnotation[],
   classes: Class[],
   categoryMap: Record<number, number>,
-  imageId: number | null,
+  dataset: DatasetInfo,
 ) {
-  const licenseID = generateRandomId();
   const info = {
-    description: "Sample dataset",
-    url: "https://your-url.com",
-    version: "1.0",
+    description: dataset.description,
+    url: dataset.url,
+    version: dataset.version,
     year: new Date().getFullYear(),
-    contributor: "Your Name",
+    contributor: dataset.contributor,
     date_created: new Date().toISOString(),
   };
 
-  const licenses = [
-    {
-      url: "https://creativecommons.org/licenses/by/4.0/",
-      id: licenseID,
-      name: "Creative Commons Attribution 4.0 International",
-    },
-  ];
+  const licenses = dataset.licenses.map(({ id, name, url }) => ({
+    url,
+    id,
+    name,
+  }));
+  // Only a license that is still in the list can be referenced
+  const imageLicense = licenses.find(
+    (license) => license.id === dataset.imageLicenseId,
+  )?.id;
 
-  const images = [
-    {
-      license: licenseID,
-      file_name: "image.jpg",
-      coco_url: "https://example.com/coco-url",
-      height: canvas.getHeight(),
-      width: canvas.getWidth(),
-      date_captured: new Date().toISOString(),
-      flickr_url: "https://www.flickr.com/photos/tags/flicker/",
-      id: imageId,
-    },
-  ];
+  // Unknown values are left undefined, which JSON leaves out
+  const images = projectImages.map((image) => ({
+    license: imageLicense,
+    file_name: image.name,
+    height: image.height,
+    width: image.width,
+    date_captured: image.capturedAt,
+    id: image.id,
+  }));
 
   const categories = classes.map((cls) => ({
-    supercategory: "none",
+    supercategory: cls.supercategory,
     id: categoryMap[cls.id],
     name: cls.name,
   }));
@@ -148,84 +118,118 @@ export function buildCOCOData(
   };
 }
 
-// 3) Build one annotation for a polygon
-function buildPolygonAnnotation(
-  polygon: Polygon,
-  catId: number,
-  imageId: number | null,
-): COCOAnnotation {
-  const points = polygon.points ?? [];
+export type COCOExportData = ReturnType<typeof buildCOCOData>;
 
-  // Flatten points => [x1,y1, x2,y2, ...]
-  const segmentation = points.flatMap((pt) => [pt.x, pt.y]);
+// Maps points from an object's own plane (Polygon points / Path commands)
+// into scene coordinates, honouring any move, scale or rotation of the object
+export function toScenePoints(
+  obj: Polygon | Path,
+  points: Point2D[],
+): Point2D[] {
+  const matrix = obj.calcTransformMatrix();
+  return points.map((pt) =>
+    util.transformPoint(
+      new Point(pt.x - obj.pathOffset.x, pt.y - obj.pathOffset.y),
+      matrix,
+    ),
+  );
+}
+
+// Inverse of toScenePoints for a single point
+export function toObjectPoint(obj: Polygon | Path, point: Point2D): Point2D {
+  const local = util.transformPoint(
+    point,
+    util.invertTransform(obj.calcTransformMatrix()),
+  );
+  return { x: local.x + obj.pathOffset.x, y: local.y + obj.pathOffset.y };
+}
 
-  // Shoelace area
-  const area = Math.abs(
+// Maps scene coordinates into the native pixel space of the background image,
+// so exports do not depend on how the image was fitted to the canvas
+export function toImagePoints(
+  image: FabricImage,
+  points: Point2D[],
+): Point2D[] {
+  const inverse = util.invertTransform(image.calcTransformMatrix());
+  return points.map((pt) => {
+    const local = util.transformPoint(pt, inverse);
+    return { x: local.x + image.width / 2, y: local.y + image.height / 2 };
+  });
+}
+
+// Inverse of toImagePoints: maps native image pixels back into the scene
+export function fromImagePoints(
+  image: FabricImage,
+  points: Point2D[],
+): Point2D[] {
+  const matrix = image.calcTransformMatrix();
+  return points.map((pt) =>
+    util.transformPoint(
+      new Point(pt.x - image.width / 2, pt.y - image.height / 2),
+      matrix,
+    ),
+  );
+}
+
+// Shoelace area of a closed ring
+function polygonArea(points: Point2D[]): number {
+  return Math.abs(
     points.reduce((sum, point, i, arr) => {
       const next = arr[(i + 1) % arr.length];
-      return sum + (point.x * (next?.y ?? 0) - (next?.x ?? 0) * point.y);
+      if (!next) return sum;
+      return sum + (point.x * next.y - next.x * point.y);
     }, 0) / 2,
   );
+}
 
-  return {
-    id: generateRandomId(),
-    image_id: imageId ?? null,
-    category_id: catId ?? null,
-    segmentation: [segmentation],
-    area,
-    bbox: [
-      polygon.left || 0,
-      polygon.top || 0,
-      polygon.width || 0,
-      polygon.height || 0,
-    ],
-    iscrowd: 0,
-  };
+function boundingBox(
+  points: Point2D[],
+  padding = 0,
+): [number, number, number, number] {
+  if (points.length === 0) return [0, 0, 0, 0];
+  const xs = points.map((pt) => pt.x);
+  const ys = points.map((pt) => pt.y);
+  const minX = Math.min(...xs) - padding;
+  const minY = Math.min(...ys) - padding;
+  return [
+    minX,
+    minY,
+    Math.max(...xs) + padding - minX,
+    Math.max(...ys) + padding - minY,
+  ];
 }
 
-// 4) Build one annotation for a path
-export function buildPathAnnotation(
-  pathObj: Path,
-  catId: number,
-  imageId: number | null,
-): COCOAnnotation {
+// Shapes may be drawn past the image edge; COCO boxes must stay inside it
+function clampBoxToImage(
+  [x, y, width, height]: [number, number, number, number],
+  image: FabricImage,
+): [number, number, number, number] {
+  const left = Math.min(Math.max(x, 0), image.width);
+  const top = Math.min(Math.max(y, 0), image.height);
+  const right = Math.min(Math.max(x + width, 0), image.width);
+  const bottom = Math.min(Math.max(y + height, 0), image.height);
+  return [left, top, right - left, bottom - top];
+}
+
+// Samples the end point of every M/L/C/Q command of a path, in path coordinates
+export function getPathPoints(pathObj: Path): Point2D[] {
   const pathData = pathObj.path ?? [];
-  const points: [number, number][] = [];
-  let currentX = 0;
-  let currentY = 0;
+  const points: Point2D[] = [];
 
   for (const command of pathData) {
     const [cmd, ...args] = command;
     switch (cmd) {
-      case "M": {
-        currentX = args[0] ?? 0;
-        currentY = args[1] ?? 0;
-        points.push([currentX, currentY]);
-        break;
-      }
-      case "L": {
-        currentX = args[0] ?? 0;
-        currentY = args[1] ?? 0;
-        points.push([currentX, currentY]);
-        break;
-      }
-      case "C": {
-        const [x, y] = args.slice(-2);
-        currentX = x ?? 0;
-        currentY = y ?? 0;
-        points.push([currentX, currentY]);
-        break;
-      }
+      case "M":
+      case "L":
+      case "C":
       case "Q": {
-        const [qx, qy] = args.slice(-2);
-        currentX = qx ?? 0;
-        currentY = qy ?? 0;
-        points.push([currentX, currentY]);
+        const [x, y] = (args as number[]).slice(-2);
+        points.push({ x: x ?? 0, y: y ?? 0 });
         break;
       }
       case "Z": {
         if (points.length > 0) {
-          points.push(points?.[0] ?? [0, 0]);
+          points.push(points[0] ?? { x: 0, y: 0 });
         }
         break;
       }
@@ -234,51 +238,250 @@ export function buildPathAnnotation(
     }
   }
 
-  const segmentation = points.flatMap(([x, y]) => [x, y]);
-  const area = Math.abs(
-    points.reduce((sum, point, i, arr) => {
-      const next = arr[(i + 1) % arr.length];
-      if (!next) return sum;
-      return sum + (point[0] * next[1] - next[0] * point[1]);
-    }, 0) / 2,
-  );
+  return points;
+}
 
-  const boundingRect = pathObj.getBoundingRect();
+// 3) Build one annotation for a polygon
+function buildPolygonAnnotation(
+  polygon: Polygon,
+  id: number,
+  catId: number,
+  imageId: number | null,
+  image: FabricImage,
+  holeMode: HoleExportMode = "polygon",
+): COCOAnnotation {
+  const toImage = (ring: Point2D[]) =>
+    toImagePoints(image, toScenePoints(polygon, ring));
+  const points = toImage(polygon.points ?? []);
+  const holes =
+    polygon instanceof HoledPolygon ? polygon.holes.map(toImage) : [];
+
+  if (holes.length > 0 && holeMode === "rle") {
+    const region = regionAround(boundingBox(points), image);
+    const mask = rasteriseAnnotation(
+      { type: "polygon", object: polygon },
+      image,
+      region,
+    );
+    return {
+      id,
+      image_id: imageId ?? null,
+      category_id: catId ?? null,
+      segmentation: encodeRLE(mask, region, image),
+      area: mask.reduce((total, covered) => total + covered, 0),
+      bbox: maskBoundingBox(mask, region),
+      iscrowd: 0,
+    };
+  }
+
+  // Flatten points => [x1,y1, x2,y2, ...]; holes are cut into the outer ring
+  const segmentation = bridgeHoles({ outer: points, holes }).flatMap((pt) => [
+    pt.x,
+    pt.y,
+  ]);
+  const area = holes.reduce(
+    (total, hole) => total - polygonArea(hole),
+    polygonArea(points),
+  );
 
   return {
-    id: generateRandomId(),
+    id,
     image_id: imageId ?? null,
     category_id: catId ?? null,
     segmentation: [segmentation],
     area,
-    bbox: [
-      boundingRect.left || 0,
-      boundingRect.top || 0,
-      boundingRect.width || 0,
-      boundingRect.height || 0,
-    ],
+    bbox: clampBoxToImage(boundingBox(points), image),
+    iscrowd: 0,
+  };
+}
+
+// Run-length encodes a mask of `region` as a mask of the whole image
+function encodeRLE(
+  mask: Uint8Array,
+  region: PixelRegion,
+  image: FabricImage,
+): COCORLE {
+  const counts: number[] = [];
+  let value = 0;
+  let run = 0;
+  const extend = (pixelValue: number, length: number) => {
+    if (length === 0) return;
+    if (pixelValue !== value) {
+      counts.push(run);
+      value = pixelValue;
+      run = 0;
+    }
+    run += length;
+  };
+
+  for (let x = 0; x < image.width; x++) {
+    const col = x - region.left;
+    if (col < 0 || col >= region.width) {
+      extend(0, image.height);
+      continue;
+    }
+    extend(0, region.top);
+    for (let row = 0; row < region.height; row++) {
+      extend(mask[row * region.width + col] ?? 0, 1);
+    }
+    extend(0, image.height - region.top - region.height);
+  }
+  counts.push(run);
+  return { counts, size: [image.height, image.width] };
+}
+
+// Tight box of the covered pixels of a region mask, in image pixels
+function maskBoundingBox(
+  mask: Uint8Array,
+  region: PixelRegion,
+): [number, number, number, number] {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  mask.forEach((covered, i) => {
+    if (!covered) return;
+    const x = region.left + (i % region.width);
+    const y = region.top + Math.floor(i / region.width);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return minX === Infinity
+    ? [0, 0, 0, 0]
+    : [minX, minY, maxX - minX + 1, maxY - minY + 1];
+}
+
+/**
+ * 4) Build one annotation for a path. The stroke is rasterised at image
+ * resolution, which gives its area and box; its shape is either that mask
+ * as RLE (a crowd annotation) or the outline of the stroke as polygons.
+ */
+export function buildPathAnnotation(
+  pathObj: Path,
+  id: number,
+  catId: number,
+  imageId: number | null,
+  image: FabricImage,
+  brushMode: BrushExportMode = "rle",
+): COCOAnnotation {
+  const points = toImagePoints(
+    image,
+    toScenePoints(pathObj, getPathPoints(pathObj)),
+  );
+
+  // The stroke is painted around the sampled centre line
+  const halfStroke =
+    ((pathObj.strokeWidth ?? 0) * (pathObj.scaleX ?? 1)) /
+    (2 * (image.scaleX || 1));
+  const region = regionAround(boundingBox(points, halfStroke), image);
+  const mask = rasteriseAnnotation(
+    { type: "path", object: pathObj },
+    image,
+    region,
+  );
+  const area = mask.reduce((total, covered) => total + covered, 0);
+
+  const segmentation =
+    brushMode === "rle"
+      ? encodeRLE(mask, region, image)
+      : strokeOutline(points, halfStroke, image).map((shape) =>
+          bridgeHoles(shape).flatMap((pt) => [pt.x, pt.y]),
+        );
+
+  return {
+    id,
+    image_id: imageId ?? null,
+    category_id: catId ?? null,
+    segmentation,
+    area,
+    bbox: maskBoundingBox(mask, region),
+    iscrowd: brushMode === "rle" ? 1 : 0,
+  };
+}
+
+// Corners of a rectangle in scene coordinates, clockwise from the top-left.
+// Uses the geometric edges, ignoring the stroke painted around them.
+export function getRectCorners(rect: Rect): Point2D[] {
+  const matrix = rect.calcTransformMatrix();
+  const halfWidth = rect.width / 2;
+  const halfHeight = rect.height / 2;
+  return [
+    { x: -halfWidth, y: -halfHeight },
+    { x: halfWidth, y: -halfHeight },
+    { x: halfWidth, y: halfHeight },
+    { x: -halfWidth, y: halfHeight },
+  ].map((corner) => util.transformPoint(corner, matrix));
+}
+
+// Build one annotation for a bounding box: exact bbox plus its four corners
+function buildBBoxAnnotation(
+  rect: Rect,
+  id: number,
+  catId: number,
+  imageId: number | null,
+  image: FabricImage,
+): COCOAnnotation {
+  const corners = toImagePoints(image, getRectCorners(rect));
+  const bbox = clampBoxToImage(boundingBox(corners), image);
+  const [x, y, width, height] = bbox;
+
+  return {
+    id,
+    image_id: imageId ?? null,
+    category_id: catId ?? null,
+    segmentation: [[x, y, x + width, y, x + width, y + height, x, y + height]],
+    area: width * height,
+    bbox,
     iscrowd: 0,
   };
 }
 
-// 5) Build the annotations array (polygon or path)
+// 5) Build the annotations array (polygon, path or bbox)
 export function buildAnnotationsData(
   annotations: Annotation[],
   categoryMap: Record<number, number>,
   imageId: number | null,
+  image: FabricImage,
+  brushMode: BrushExportMode = "rle",
+  holeMode: HoleExportMode = "polygon",
 ): COCOAnnotation[] {
   return annotations
     .map((annotation) => {
       if (annotation.type === "polygon") {
         const polygon = annotation.object as Polygon;
-        const catId = annotation.class ? categoryMap[annotation.class.id] ?? null : null;
-        return buildPolygonAnnotation(polygon, catId ?? 0, imageId ?? 0);
+        const catId = annotation.class ? categoryMap[annotation.class.id] : 0;
+        return buildPolygonAnnotation(
+          polygon,
+          annotation.id,
+          catId ?? 0,
+          imageId ?? 0,
+          image,
+          holeMode,
+        );
       }
 
       if (annotation.type === "path") {
         const pathObj = annotation.object as Path;
         const catId = annotation.class ? categoryMap[annotation.class.id] : 0;
-        return buildPathAnnotation(pathObj, catId ?? 0, imageId ?? 0);
+        return buildPathAnnotation(
+          pathObj,
+          annotation.id,
+          catId ?? 0,
+          imageId ?? 0,
+          image,
+          brushMode,
+        );
+      }
+
+      if (annotation.type === "bbox") {
+        const rect = annotation.object as Rect;
+        const catId = annotation.class ? categoryMap[annotation.class.id] : 0;
+        return buildBBoxAnnotation(
+          rect,
+          annotation.id,
+          catId ?? 0,
+          imageId ?? 0,
+          image,
+        );
       }
 
       // Return null for unsupported types, filtered out below
@@ -287,17 +490,86 @@ export function buildAnnotationsData(
     .filter((anno): anno is COCOAnnotation => anno !== null);
 }
 
+// Area in image pixels, as exported, and number of vertices of an annotation
+export function measureAnnotation(
+  annotation: Annotation,
+  image: FabricImage,
+): { area: number; vertices: number } {
+  const [data] = buildAnnotationsData([annotation], {}, null, image);
+  const { object } = annotation;
+  let vertices = 4;
+  if (annotation.type === "path") {
+    vertices = (object as Path).path.length;
+  } else if (annotation.type === "polygon") {
+    vertices = [
+      (object as Polygon).points,
+      ...(object instanceof HoledPolygon ? object.holes : []),
+    ].reduce((sum, ring) => sum + ring.length, 0);
+  }
+  return { area: data?.area ?? 0, vertices };
+}
+
+/**
+ * Splits a COCO polygon segmentation into rings of points. Handles both the
+ * flat form ([[x1,y1,...], ...]) and the nested multi-polygon form; RLE
+ * masks have no rings.
+ */
+export function segmentationToRings(
+  annotation: COCOImportedAnnotation,
+): Point2D[][] {
+  if (!Array.isArray(annotation.segmentation)) return [];
+  const flatParts = annotation.segmentation.flatMap((part) =>
+    part.every((value) => typeof value === "number") ? [part] : part,
+  );
+
+  return flatParts
+    .map((part) => {
+      const ring: Point2D[] = [];
+      for (let i = 0; i + 1 < part.length; i += 2) {
+        ring.push({ x: part[i] ?? 0, y: part[i + 1] ?? 0 });
+      }
+      return ring;
+    })
+    .filter((ring) => ring.length >= 3);
+}
+
+/**
+ * Detection-only annotations: no segmentation at all, or a single four-corner
+ * ring that is exactly the bbox (the form written by the bbox tool).
+ */
+export function isBBoxAnnotation(annotation: COCOImportedAnnotation): boolean {
+  const [x = 0, y = 0, width = 0, height = 0] = annotation.bbox;
+  if (width <= 0 || height <= 0) return false;
+  if (!Array.isArray(annotation.segmentation)) return false;
+
+  const rings = segmentationToRings(annotation);
+  if (annotation.segmentation.length === 0 || rings.length === 0) return true;
+
+  const [ring, ...others] = rings;
+  if (!ring || others.length > 0 || ring.length !== 4) return false;
+  const xs = new Set(ring.map((pt) => pt.x));
+  const ys = new Set(ring.map((pt) => pt.y));
+  return (
+    xs.size === 2 &&
+    ys.size === 2 &&
+    xs.has(x) &&
+    xs.has(x + width) &&
+    ys.has(y) &&
+    ys.has(y + height)
+  );
+}
+
+// Category id of every class, by class id; the same on every export
 export function createCategoryMap(classes: Class[]): Record<number, number> {
   const categoryMap: Record<number, number> = {};
   classes.forEach((cls) => {
-    categoryMap[cls.id] = generateRandomId();
+    categoryMap[cls.id] = cls.categoryId;
   });
   return categoryMap;
 }
 
-export function downloadJSONData<T extends object>(jsonData: T, fileName: string) {
-  const dataStr = JSON.stringify(jsonData, null, 2);
-  const blob = new Blob([dataStr], { type: "application/json" });
+export function downloadFile(data: BlobPart, fileName: string, type: string) {
+  const blob = new Blob([data], { type });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
@@ -305,3 +577,10 @@ export function downloadJSONData<T extends object>(jsonData: T, fileName: string
   link.click();
   URL.revokeObjectURL(url);
 }
+
+export function downloadJSONData<T extends object>(
+  jsonData: T,
+  fileName: string,
+) {
+  downloadFile(JSON.stringify(jsonData, null, 2), fileName, "application/json");
+}
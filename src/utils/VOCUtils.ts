@@ -0,0 +1,212 @@
+import {
+  type AnnotatedImage,
+  type COCOImportData,
+  type Point2D,
+  buildAnnotationsData,
+} from "~/utils/COCOUtils";
+import { generateRandomId } from "~/utils/uuid";
+
+/**
+ * Pascal VOC XML, one file per image. Besides the standard `<bndbox>`,
+ * polygons carry their outline in a `<polygon>` element holding
+ * `<x1>`, `<y1>`, `<x2>`, `<y2>`... in image pixels.
+ */
+
+export type VOCObject = {
+  name: string;
+  bbox: [number, number, number, number];
+  // Empty for plain boxes
+  polygon: Point2D[];
+};
+
+export type VOCDocument = {
+  filename: string;
+  width: number;
+  height: number;
+  objects: VOCObject[];
+};
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Writes the VOC file of one image. Annotations without a class have no
+ * object name in VOC and are left out; `skipped` counts them.
+ */
+export function buildVOCDocument({
+  image,
+  background,
+  annotations,
+}: AnnotatedImage): { xml: string; skipped: number } {
+  let skipped = 0;
+  const objects = annotations.flatMap((annotation) => {
+    const [data] = buildAnnotationsData([annotation], {}, image.id, background);
+    if (!annotation.class || !data) {
+      skipped++;
+      return [];
+    }
+    const [x, y, width, height] = data.bbox;
+    // Brush strokes are exported as their box only: their segmentation is
+    // a mask, not an outline
+    const outline =
+      annotation.type === "polygon" && Array.isArray(data.segmentation)
+        ? (data.segmentation[0] ?? [])
+        : [];
+    const polygon =
+      outline.length > 0
+        ? [
+            "    <polygon>",
+            ...outline.map((value, i) => {
+              const tag = `${i % 2 ? "y" : "x"}${Math.floor(i / 2) + 1}`;
+              return `      <${tag}>${value}</${tag}>`;
+            }),
+            "    </polygon>",
+          ]
+        : [];
+    return [
+      "  <object>",
+      `    <name>${escapeXML(annotation.class.name)}</name>`,
+      "    <pose>Unspecified</pose>",
+      "    <truncated>0</truncated>",
+      "    <difficult>0</difficult>",
+      "    <bndbox>",
+      `      <xmin>${Math.round(x)}</xmin>`,
+      `      <ymin>${Math.round(y)}</ymin>`,
+      `      <xmax>${Math.round(x + width)}</xmax>`,
+      `      <ymax>${Math.round(y + height)}</ymax>`,
+      "    </bndbox>",
+      ...polygon,
+      "  </object>",
+    ];
+  });
+
+  const xml = [
+    "<annotation>",
+    `  <filename>${escapeXML(image.name)}</filename>`,
+    "  <size>",
+    `    <width>${image.width}</width>`,
+    `    <height>${image.height}</height>`,
+    "    <depth>3</depth>",
+    "  </size>",
+    "  <segmented>0</segmented>",
+    ...objects,
+    "</annotation>",
+    "",
+  ].join("\n");
+  return { xml, skipped };
+}
+
+function childText(parent: Element, tag: string): string | null {
+  const child = Array.from(parent.children).find(
+    (element) => element.tagName === tag,
+  );
+  return child?.textContent?.trim() ?? null;
+}
+
+function childNumber(parent: Element, tag: string): number {
+  const value = Number(childText(parent, tag) ?? NaN);
+  if (!Number.isFinite(value)) {
+    throw new Error(`<${parent.tagName}> has no numeric <${tag}>`);
+  }
+  return value;
+}
+
+// Reads the <x1>, <y1>, <x2>, <y2>... children of a <polygon> element
+function readPolygon(polygon: Element | undefined): Point2D[] {
+  if (!polygon) return [];
+  const points: Point2D[] = [];
+  for (let i = 1; childText(polygon, `x${i}`) !== null; i++) {
+    points.push({
+      x: childNumber(polygon, `x${i}`),
+      y: childNumber(polygon, `y${i}`),
+    });
+  }
+  return points;
+}
+
+// Throws with a readable message when the file is not a VOC annotation
+export function parseVOCDocument(xml: string): VOCDocument {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("The file is not valid XML");
+  }
+  const root = doc.documentElement;
+  if (root.tagName !== "annotation") {
+    throw new Error("The file has no <annotation> root element");
+  }
+  const filename = childText(root, "filename");
+  if (!filename) throw new Error("<annotation> has no <filename>");
+  const size = Array.from(root.children).find((el) => el.tagName === "size");
+  if (!size) throw new Error("<annotation> has no <size>");
+
+  const objects = Array.from(root.children)
+    .filter((element) => element.tagName === "object")
+    .map((object): VOCObject => {
+      const name = childText(object, "name");
+      if (!name) throw new Error("<object> has no <name>");
+      const box = Array.from(object.children).find(
+        (element) => element.tagName === "bndbox",
+      );
+      if (!box) throw new Error(`<object> "${name}" has no <bndbox>`);
+      const xmin = childNumber(box, "xmin");
+      const ymin = childNumber(box, "ymin");
+      return {
+        name,
+        bbox: [
+          xmin,
+          ymin,
+          childNumber(box, "xmax") - xmin,
+          childNumber(box, "ymax") - ymin,
+        ],
+        polygon: readPolygon(
+          Array.from(object.children).find(
+            (element) => element.tagName === "polygon",
+          ),
+        ),
+      };
+    });
+
+  return {
+    filename,
+    width: childNumber(size, "width"),
+    height: childNumber(size, "height"),
+    objects,
+  };
+}
+
+// Converts VOC files into the form the COCO importer takes, with one
+// category per distinct object name
+export function vocToCOCO(documents: VOCDocument[]): COCOImportData {
+  const names = [
+    ...new Set(documents.flatMap((doc) => doc.objects.map((obj) => obj.name))),
+  ];
+  const categoryIds = new Map(names.map((name, i) => [name, i + 1]));
+
+  return {
+    images: documents.map((doc, i) => ({ id: i + 1, file_name: doc.filename })),
+    categories: names.map((name, i) => ({ id: i + 1, name })),
+    annotations: documents.flatMap((doc, i) =>
+      doc.objects.map((object) => {
+        const [, , width, height] = object.bbox;
+        return {
+          id: generateRandomId(),
+          image_id: i + 1,
+          category_id: categoryIds.get(object.name) ?? 0,
+          segmentation:
+            object.polygon.length >= 3
+              ? [object.polygon.flatMap((pt) => [pt.x, pt.y])]
+              : [],
+          area: width * height,
+          bbox: object.bbox,
+          iscrowd: 0,
+        };
+      }),
+    ),
+  };
+}
@@ -0,0 +1,108 @@
+import type { Class } from "~/Types/Class";
+import { type AnnotatedImage, buildAnnotationsData } from "~/utils/COCOUtils";
+import { replaceExtension } from "~/utils/imageUtils";
+import type { ZipEntry } from "~/utils/zipUtils";
+
+/**
+ * YOLO (Ultralytics) label files: one `labels/<image>.txt` per image, one
+ * line per annotation, every coordinate normalised to the image size.
+ *
+ *   detect:  <class> <cx> <cy> <w> <h>
+ *   segment: <class> <x1> <y1> <x2> <y2> ...
+ *
+ * Class indices are the positions in the class list, as named in data.yaml.
+ */
+
+export type YOLOTask = "detect" | "segment";
+
+const formatCoordinate = (value: number) =>
+  Math.min(Math.max(value, 0), 1).toFixed(6);
+
+// Class names go through JSON.stringify: JSON strings are valid YAML
+export function buildYOLODataYAML(classes: Class[]): string {
+  return [
+    "# Label files are in labels/; put the images in images/",
+    "path: .",
+    "train: images",
+    "val: images",
+    `nc: ${classes.length}`,
+    "names:",
+    ...classes.map((cls, index) => `  ${index}: ${JSON.stringify(cls.name)}`),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Label lines of one image. Annotations without a class have no class index
+ * and are left out; `skipped` counts them.
+ */
+export function buildYOLOLabels(
+  { image, background, annotations }: AnnotatedImage,
+  classes: Class[],
+  task: YOLOTask,
+): { text: string; skipped: number } {
+  let skipped = 0;
+  const lines = annotations.flatMap((annotation) => {
+    const classIndex = classes.findIndex(
+      (cls) => cls.id === annotation.class?.id,
+    );
+    // Brush strokes are traced into outline polygons for segmentation
+    const [data] = buildAnnotationsData(
+      [annotation],
+      {},
+      image.id,
+      background,
+      task === "segment" ? "polygon" : "rle",
+    );
+    if (classIndex === -1 || !data) {
+      skipped++;
+      return [];
+    }
+    const [x, y, width, height] = data.bbox;
+
+    if (task === "detect") {
+      const values = [
+        (x + width / 2) / image.width,
+        (y + height / 2) / image.height,
+        width / image.width,
+        height / image.height,
+      ];
+      return [[classIndex, ...values.map(formatCoordinate)].join(" ")];
+    }
+
+    // One line per polygon of the segmentation: the outline of a polygon
+    // (holes bridged in), the corners of a box, or each piece of a stroke
+    const rings = Array.isArray(data.segmentation) ? data.segmentation : [];
+    return rings.map((ring) =>
+      [
+        classIndex,
+        ...ring.map((value, i) =>
+          formatCoordinate(value / (i % 2 === 0 ? image.width : image.height)),
+        ),
+      ].join(" "),
+    );
+  });
+
+  return { text: lines.map((line) => `${line}\n`).join(""), skipped };
+}
+
+// data.yaml plus the label file of every image, ready to be zipped
+export function buildYOLODataset(
+  annotatedImages: AnnotatedImage[],
+  classes: Class[],
+  task: YOLOTask,
+): { files: ZipEntry[]; skipped: number } {
+  let skipped = 0;
+  const labels = annotatedImages.map((annotated) => {
+    const labelFile = buildYOLOLabels(annotated, classes, task);
+    skipped += labelFile.skipped;
+    return {
+      name: `labels/${replaceExtension(annotated.image.name, "txt")}`,
+      data: labelFile.text,
+    };
+  });
+  return {
+    files: [{ name: "data.yaml", data: buildYOLODataYAML(classes) }, ...labels],
+    skipped,
+  };
+}
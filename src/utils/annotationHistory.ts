@@ -0,0 +1,121 @@
+import { type FabricObject, Point, Polygon } from "fabric";
+import type { Annotation, Point2D } from "~/utils/COCOUtils";
+
+// An annotation together with its position in the annotation list
+export type PlacedAnnotation = {
+  annotation: Annotation;
+  index: number;
+};
+
+// Everything that places an object on the image. Polygons also keep their
+// vertices, which the edit tool moves one by one.
+export type ObjectGeometry = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  angle: number;
+  skewX: number;
+  skewY: number;
+  flipX: boolean;
+  flipY: boolean;
+  points?: Point2D[];
+  pathOffset?: Point2D;
+};
+
+/**
+ * One undoable step. A "change" removes and adds whole annotations: `removed`
+ * holds the indices before the step, `added` the indices after it. A "modify"
+ * moves or reshapes a single annotation in place, and a "reclass" gives
+ * annotations another class (by id, so that later edits of the class are
+ * kept). Commands only reference the annotations they touch, so undo and redo
+ * cost the same however many annotations the image has.
+ */
+export type HistoryCommand =
+  | { kind: "change"; removed: PlacedAnnotation[]; added: PlacedAnnotation[] }
+  | {
+      kind: "modify";
+      annotationId: number;
+      before: ObjectGeometry;
+      after: ObjectGeometry;
+    }
+  | { kind: "reclass"; changes: ClassChange[] };
+
+// Class ids of one annotation before and after a "reclass"
+export type ClassChange = {
+  annotationId: number;
+  before: number | null;
+  after: number | null;
+};
+
+export function invertCommand(command: HistoryCommand): HistoryCommand {
+  if (command.kind === "change") {
+    return { kind: "change", removed: command.added, added: command.removed };
+  }
+  if (command.kind === "reclass") {
+    return {
+      kind: "reclass",
+      changes: command.changes.map((change) => ({
+        ...change,
+        before: change.after,
+        after: change.before,
+      })),
+    };
+  }
+  return { ...command, before: command.after, after: command.before };
+}
+
+/**
+ * Applies the list part of a "change" command: removals go from the highest
+ * index down, insertions from the lowest index up, so every index stays valid
+ * while the list is rebuilt.
+ */
+export function applyListChange(
+  annotations: Annotation[],
+  removed: PlacedAnnotation[],
+  added: PlacedAnnotation[],
+): Annotation[] {
+  const next = [...annotations];
+  [...removed]
+    .sort((a, b) => b.index - a.index)
+    .forEach(({ index }) => next.splice(index, 1));
+  [...added]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ annotation, index }) => next.splice(index, 0, annotation));
+  return next;
+}
+
+export function captureGeometry(obj: FabricObject): ObjectGeometry {
+  const geometry: ObjectGeometry = {
+    left: obj.left,
+    top: obj.top,
+    width: obj.width,
+    height: obj.height,
+    scaleX: obj.scaleX,
+    scaleY: obj.scaleY,
+    angle: obj.angle,
+    skewX: obj.skewX,
+    skewY: obj.skewY,
+    flipX: obj.flipX,
+    flipY: obj.flipY,
+  };
+  if (obj instanceof Polygon) {
+    geometry.points = obj.points.map((pt) => ({ x: pt.x, y: pt.y }));
+    geometry.pathOffset = { x: obj.pathOffset.x, y: obj.pathOffset.y };
+  }
+  return geometry;
+}
+
+export function applyGeometry(obj: FabricObject, geometry: ObjectGeometry) {
+  const { points, pathOffset, ...transform } = geometry;
+  if (obj instanceof Polygon && points && pathOffset) {
+    obj.set({
+      points: points.map((pt) => new Point(pt.x, pt.y)),
+      pathOffset: new Point(pathOffset.x, pathOffset.y),
+    });
+  }
+  obj.set(transform);
+  obj.setCoords();
+}
@@ -0,0 +1,78 @@
+import { FabricObject } from "fabric";
+import type { Class } from "~/Types/Class";
+import type { Annotation } from "~/utils/COCOUtils";
+import { generateRandomId } from "~/utils/uuid";
+
+declare module "fabric" {
+  interface FabricObject {
+    annotationId?: number;
+    annotationType?: Annotation["type"];
+    annotationClass?: Class | null;
+    annotationLabel?: string;
+    annotationNotes?: string;
+    // Locked annotations cannot be moved, reshaped or erased on the canvas
+    annotationLocked?: boolean;
+  }
+}
+
+// The annotation metadata travels with the fabric object whenever it is
+// serialized
+FabricObject.customProperties = [
+  "annotationId",
+  "annotationType",
+  "annotationClass",
+  "annotationLabel",
+  "annotationNotes",
+  "annotationLocked",
+];
+
+// What the layers panel edits on an annotation; hidden is the visibility of
+// its object
+export type AnnotationMeta = {
+  label: string;
+  notes: string;
+  hidden: boolean;
+  locked: boolean;
+};
+
+export function getAnnotationMeta({ object }: Annotation): AnnotationMeta {
+  return {
+    label: object.annotationLabel ?? "",
+    notes: object.annotationNotes ?? "",
+    hidden: !object.visible,
+    locked: object.annotationLocked ?? false,
+  };
+}
+
+export function setAnnotationMeta(
+  { object }: Annotation,
+  meta: Partial<AnnotationMeta>,
+) {
+  if (meta.label !== undefined) object.set({ annotationLabel: meta.label });
+  if (meta.notes !== undefined) object.set({ annotationNotes: meta.notes });
+  if (meta.hidden !== undefined) object.set({ visible: !meta.hidden });
+  if (meta.locked !== undefined) object.set({ annotationLocked: meta.locked });
+}
+
+/**
+ * Builds an annotation around a fabric object and stores its ID, type and
+ * class on the object, so that canvas events can be traced back to it.
+ */
+export function createAnnotation(
+  type: Annotation["type"],
+  cls: Class | null,
+  object: FabricObject,
+  id: number = generateRandomId(),
+): Annotation {
+  object.set({ annotationId: id, annotationType: type, annotationClass: cls });
+  return { id, type, class: cls, object };
+}
+
+export function findAnnotation(
+  annotations: Annotation[],
+  id: number | undefined,
+): Annotation | undefined {
+  return id === undefined
+    ? undefined
+    : annotations.find((annotation) => annotation.id === id);
+}
@@ -1,25 +1,231 @@
+import { z } from "zod";
 import type { Class } from "~/Types/Class";
+import { generateDistinctColor } from "~/utils/colors";
+import { generateRandomId } from "~/utils/uuid";
+
+export const DEFAULT_SUPERCATEGORY = "none";
+
+// A class as stored before classes had a COCO category
+type StoredClass = Omit<Class, "categoryId" | "supercategory"> &
+  Partial<Pick<Class, "categoryId" | "supercategory">>;
+
+// A class whose category id changes to follow an imported dataset
+export type CategoryRemap = {
+  classId: number;
+  name: string;
+  from: number;
+  to: number;
+};
+
+// Smallest category id above all those in use; COCO ids start at 1
+export function nextCategoryId(classes: Pick<Class, "categoryId">[]): number {
+  return Math.max(0, ...classes.map((cls) => cls.categoryId)) + 1;
+}
+
+/**
+ * Gives classes saved without a category (in localStorage, sessions or
+ * server projects) the next free category id, keeping the ids of the others.
+ */
+export function withCategoryIds(classes: StoredClass[]): Class[] {
+  const used = classes.flatMap((cls) =>
+    cls.categoryId !== undefined ? [{ categoryId: cls.categoryId }] : [],
+  );
+  return classes.map((cls) => {
+    const categoryId = cls.categoryId ?? nextCategoryId(used);
+    if (cls.categoryId === undefined) used.push({ categoryId });
+    return {
+      ...cls,
+      categoryId,
+      supercategory: cls.supercategory ?? DEFAULT_SUPERCATEGORY,
+    };
+  });
+}
+
+// Category ids used by more than one class, with the classes using them
+export function findCategoryIdCollisions(
+  classes: Class[],
+): Map<number, Class[]> {
+  const byId = new Map<number, Class[]>();
+  classes.forEach((cls) =>
+    byId.set(cls.categoryId, [...(byId.get(cls.categoryId) ?? []), cls]),
+  );
+  return new Map([...byId].filter(([, users]) => users.length > 1));
+}
+
+/**
+ * Maps imported COCO categories onto the existing classes by name
+ * (case-insensitive), creating a class with a free colour for every category
+ * that has no match yet. New classes keep the category id of the file when
+ * `keepIds` is set and the id is free; matched classes whose id differs from
+ * the file are listed in `remap` rather than changed.
+ */
+export function resolveCategoryClasses(
+  categories: { id: number; name: string; supercategory?: string }[],
+  classes: Class[],
+  keepIds = true,
+): {
+  classes: Class[];
+  created: Class[];
+  categoryToClass: Record<number, Class>;
+  remap: CategoryRemap[];
+} {
+  const resolved = [...classes];
+  const created: Class[] = [];
+  const categoryToClass: Record<number, Class> = {};
+  const remap: CategoryRemap[] = [];
+
+  categories.forEach((category) => {
+    let cls = resolved.find(
+      (c) => c.name.toLowerCase() === category.name.toLowerCase(),
+    );
+    if (!cls) {
+      const idTaken = resolved.some((c) => c.categoryId === category.id);
+      cls = {
+        id: generateRandomId(),
+        name: category.name,
+        color: generateDistinctColor(resolved.map((c) => c.color)),
+        categoryId:
+          keepIds && !idTaken ? category.id : nextCategoryId(resolved),
+        supercategory: category.supercategory ?? DEFAULT_SUPERCATEGORY,
+      };
+      resolved.push(cls);
+      created.push(cls);
+    } else if (keepIds && cls.categoryId !== category.id) {
+      remap.push({
+        classId: cls.id,
+        name: cls.name,
+        from: cls.categoryId,
+        to: category.id,
+      });
+    }
+    categoryToClass[category.id] = cls;
+  });
+
+  return { classes: resolved, created, categoryToClass, remap };
+}
 
 /**
- * Extracts r/g/b from an 'rgba(...)' or 'rgb(...)' string, ignoring alpha,
- * then converts to '#RRGGBB' format. Finally, searches for a matching class color.
+ * Moves classes to the category ids of an imported dataset. Other classes
+ * holding one of those ids move to a free id, and are added to the returned
+ * list of changes.
  */
-export function getClassFromColor(classes: Class[], rgbaColor: string): Class | undefined {
-  const match = /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})(?:\s*,\s*[\d.]+)?\)$/.exec(rgbaColor.trim());
-  if (!match) {
-    return undefined; // Not a recognized format
+export function applyCategoryRemap(
+  classes: Class[],
+  remap: CategoryRemap[],
+): { classes: Class[]; changes: CategoryRemap[] } {
+  const targets = new Map(remap.map((change) => [change.classId, change.to]));
+  const updated = classes.map((cls) => {
+    const to = targets.get(cls.id);
+    return to === undefined ? cls : { ...cls, categoryId: to };
+  });
+
+  const claimed = new Set(targets.values());
+  const changes = [...remap];
+  updated.forEach((cls, index) => {
+    if (targets.has(cls.id) || !claimed.has(cls.categoryId)) return;
+    const to = nextCategoryId(updated);
+    changes.push({ classId: cls.id, name: cls.name, from: cls.categoryId, to });
+    updated[index] = { ...cls, categoryId: to };
+  });
+
+  return { classes: updated, changes };
+}
+
+// Shared list of classes, so that a team labels with the same classes
+const taxonomySchema = z
+  .object({
+    classes: z.array(
+      z.object({
+        name: z.string().trim().min(1),
+        color: z.string().regex(/^#[0-9a-f]{6}$/i, "Expected a #rrggbb colour"),
+        categoryId: z.number().int().positive(),
+        supercategory: z.string().default(DEFAULT_SUPERCATEGORY),
+      }),
+    ),
+  })
+  .superRefine(({ classes }, ctx) => {
+    const names = new Set<string>();
+    const categoryIds = new Set<number>();
+    classes.forEach((cls, index) => {
+      if (names.has(cls.name.toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["classes", index, "name"],
+          message: `Duplicate class name "${cls.name}"`,
+        });
+      }
+      if (categoryIds.has(cls.categoryId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["classes", index, "categoryId"],
+          message: `Duplicate category id ${cls.categoryId}`,
+        });
+      }
+      names.add(cls.name.toLowerCase());
+      categoryIds.add(cls.categoryId);
+    });
+  });
+
+export type Taxonomy = z.infer<typeof taxonomySchema>;
+
+// Classes in the order of the list, without the ids local to this project
+export function buildTaxonomy(classes: Class[]): Taxonomy {
+  return {
+    classes: classes.map(({ name, color, categoryId, supercategory }) => ({
+      name,
+      color,
+      categoryId,
+      supercategory,
+    })),
+  };
+}
+
+// Throws a readable error when the file is not a taxonomy
+export function parseTaxonomy(json: unknown): Taxonomy {
+  const parsed = taxonomySchema.safeParse(json);
+  if (!parsed.success) {
+    const [issue] = parsed.error.errors;
+    throw new Error(
+      `Invalid class list${issue ? ` at ${issue.path.join(".")}: ${issue.message}` : ""}`,
+    );
   }
+  return parsed.data;
+}
+
+/**
+ * Brings the classes in line with a taxonomy. Classes are matched by name
+ * (case-insensitive) and keep their id, so their annotations follow; the
+ * others are created. Classes missing from the taxonomy are kept after it,
+ * moving to a free category id if the taxonomy claims theirs.
+ */
+export function mergeTaxonomy(
+  classes: Class[],
+  taxonomy: Taxonomy,
+): { classes: Class[]; created: Class[] } {
+  const created: Class[] = [];
+  const matched = new Set<number>();
 
-  const [/* entire */, rs, gs, bs] = match;
-  const r = Math.min(255, parseInt(rs!, 10));
-  const g = Math.min(255, parseInt(gs!, 10));
-  const b = Math.min(255, parseInt(bs!, 10));
+  const merged = taxonomy.classes.map((entry): Class => {
+    const existing = classes.find(
+      (cls) => cls.name.toLowerCase() === entry.name.toLowerCase(),
+    );
+    if (existing) {
+      matched.add(existing.id);
+      return { ...existing, ...entry };
+    }
+    const cls = { id: generateRandomId(), ...entry };
+    created.push(cls);
+    return cls;
+  });
 
-  // Convert to hex (#RRGGBB)
-  const hexColor = `#${r.toString(16).padStart(2, "0")}${
-    g.toString(16).padStart(2, "0")
-  }${b.toString(16).padStart(2, "0")}`.toUpperCase();
+  classes
+    .filter((cls) => !matched.has(cls.id))
+    .forEach((cls) => {
+      const claimed = merged.some((c) => c.categoryId === cls.categoryId);
+      merged.push(
+        claimed ? { ...cls, categoryId: nextCategoryId(merged) } : cls,
+      );
+    });
 
-  // Return the matching class if one is found
-  return classes.find((cls) => cls.color.toUpperCase() === hexColor);
-} 
\ No newline at end of file
+  return { classes: merged, created };
+}
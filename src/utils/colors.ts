@@ -12,6 +12,12 @@ export function hexToRgba(hex: string, alpha: number) {
 }
 
 
+// "#FF8000" -> [255, 128, 0]
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace(/^#/, ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
 export function getAlpha(rgba: string): number | null {
   const match = /rgba?\(\d+,\s*\d+,\s*\d+,\s*([\d.]+)\)/.exec(rgba);
   if (match) {
@@ -20,3 +26,15 @@ export function getAlpha(rgba: string): number | null {
   }
   return null; // Return null if there's no match
 }
+
+// Picks a random #RRGGBB colour that is not used by any of the given colours
+export function generateDistinctColor(takenColors: string[]): string {
+  const taken = new Set(takenColors.map((color) => color.toUpperCase()));
+  let color: string;
+  do {
+    color = `#${Math.floor(Math.random() * 0x1000000)
+      .toString(16)
+      .padStart(6, "0")}`.toUpperCase();
+  } while (taken.has(color));
+  return color;
+}
@@ -0,0 +1,33 @@
+import type { DatasetInfo, License } from "~/Types/DatasetInfo";
+
+// Common licenses offered in the dataset settings; their ids are only used
+// to pick them from the list
+export const LICENSE_CATALOGUE: Omit<License, "id">[] = [
+  {
+    name: "Creative Commons Attribution 4.0 International",
+    url: "https://creativecommons.org/licenses/by/4.0/",
+  },
+  {
+    name: "Creative Commons Attribution-ShareAlike 4.0 International",
+    url: "https://creativecommons.org/licenses/by-sa/4.0/",
+  },
+  {
+    name: "Creative Commons Attribution-NonCommercial 4.0 International",
+    url: "https://creativecommons.org/licenses/by-nc/4.0/",
+  },
+  {
+    name: "Creative Commons Zero v1.0 Universal",
+    url: "https://creativecommons.org/publicdomain/zero/1.0/",
+  },
+];
+
+export function createDefaultDataset(): DatasetInfo {
+  return {
+    description: "",
+    contributor: "",
+    version: "1.0",
+    url: "",
+    licenses: [],
+    imageLicenseId: null,
+  };
+}
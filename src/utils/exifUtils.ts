@@ -0,0 +1,96 @@
+/**
+ * Reads when a photo was taken, for the `date_captured` of COCO images.
+ * Only the EXIF block of JPEG files is parsed; other files fall back to
+ * their modification time.
+ */
+
+// EXIF sits at the start of a JPEG, so there is no need to read it all
+const EXIF_SCAN_BYTES = 128 * 1024;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+// "2013:11:14 17:02:52"
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/;
+
+function readString(view: DataView, offset: number, length: number) {
+  let text = "";
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+// DateTimeOriginal, or DateTime when the camera did not write it
+function readTIFFDate(view: DataView, tiff: number): string | null {
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(offset, littleEndian);
+  const u32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+  const findEntry = (ifd: number, tag: number) => {
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (u16(entry) === tag) return entry;
+    }
+    return null;
+  };
+  const readASCII = (entry: number) => {
+    const length = u32(entry + 4);
+    // Values longer than four bytes are stored elsewhere
+    const offset = length > 4 ? tiff + u32(entry + 8) : entry + 8;
+    return readString(view, offset, length);
+  };
+
+  const ifd0 = tiff + u32(tiff + 4);
+  const exifPointer = findEntry(ifd0, TAG_EXIF_IFD);
+  if (exifPointer !== null) {
+    const original = findEntry(
+      tiff + u32(exifPointer + 8),
+      TAG_DATE_TIME_ORIGINAL,
+    );
+    if (original !== null) return readASCII(original);
+  }
+  const dateTime = findEntry(ifd0, TAG_DATE_TIME);
+  return dateTime !== null ? readASCII(dateTime) : null;
+}
+
+async function readEXIFDate(file: File): Promise<string | null> {
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  try {
+    if (view.getUint16(0) !== 0xffd8) return null;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Image data follows the start of scan; the metadata is before it
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      if (marker === 0xffe1 && readString(view, offset + 4, 4) === "Exif") {
+        return readTIFFDate(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed metadata: reading ran past the scanned bytes
+  }
+  return null;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "2013-11-14 17:02:52", as in the COCO images list, in local time
+function formatDate(date: Date): string {
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+export async function readCaptureDate(file: File): Promise<string> {
+  const match = EXIF_DATE_PATTERN.exec((await readEXIFDate(file)) ?? "");
+  if (match) {
+    const [, year, month, day, time] = match;
+    return `${year}-${month}-${day} ${time}`;
+  }
+  return formatDate(new Date(file.lastModified));
+}
@@ -0,0 +1,242 @@
+import {
+  difference,
+  intersection,
+  type MultiPolygon,
+  type Pair,
+  type Polygon as ClipPolygon,
+  type Ring,
+  union,
+} from "polygon-clipping";
+import type { Point2D } from "~/utils/COCOUtils";
+
+export type PolygonShape = {
+  outer: Point2D[];
+  holes: Point2D[][];
+};
+
+const CIRCLE_SEGMENTS = 16;
+
+function toRing(points: Point2D[]): Ring {
+  return points.map((pt): Pair => [pt.x, pt.y]);
+}
+
+// polygon-clipping returns closed rings (last pair repeats the first)
+function fromRing(ring: Ring): Point2D[] {
+  const points = ring.map(([x, y]) => ({ x, y }));
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first && last && first.x === last.x && first.y === last.y) {
+    points.pop();
+  }
+  return points;
+}
+
+function circleRing(center: Point2D, radius: number): Ring {
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i): Pair => {
+    const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    return [
+      center.x + Math.cos(angle) * radius,
+      center.y + Math.sin(angle) * radius,
+    ];
+  });
+}
+
+/**
+ * Turns a stroke (centre line plus radius) into the area it covers: the union
+ * of a circle at every point and a rectangle along every segment.
+ */
+export function bufferPolyline(
+  points: Point2D[],
+  radius: number,
+): MultiPolygon {
+  const shapes: ClipPolygon[] = points.map((pt) => [circleRing(pt, radius)]);
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!;
+    const b = points[i]!;
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    // Offset perpendicular to the segment by the radius on both sides
+    const nx = (-(b.y - a.y) / length) * radius;
+    const ny = ((b.x - a.x) / length) * radius;
+    shapes.push([
+      [
+        [a.x + nx, a.y + ny],
+        [b.x + nx, b.y + ny],
+        [b.x - nx, b.y - ny],
+        [a.x - nx, a.y - ny],
+      ],
+    ]);
+  }
+
+  const [first, ...rest] = shapes;
+  return first ? union(first, ...rest) : [];
+}
+
+/**
+ * Outline of a stroke as polygons with holes, cut to the `bounds` rectangle
+ * (e.g. the image) at the origin.
+ */
+export function strokeOutline(
+  points: Point2D[],
+  radius: number,
+  bounds: { width: number; height: number },
+): PolygonShape[] {
+  const { width, height } = bounds;
+  const area = bufferPolyline(points, radius);
+  if (area.length === 0) return [];
+  return intersection(area, [
+    [
+      [0, 0],
+      [width, 0],
+      [width, height],
+      [0, height],
+    ],
+  ]).map(([outer = [], ...holes]) => ({
+    outer: fromRing(outer),
+    holes: holes.map(fromRing),
+  }));
+}
+
+// Area enclosed by a ring, in the form `subtractFromPolygon` takes
+export function ringToArea(ring: Point2D[]): MultiPolygon {
+  return [[toRing(ring)]];
+}
+
+/**
+ * Subtracts the eraser area from a polygon. Returns null when the eraser does
+ * not touch the shape, otherwise the remaining pieces (possibly none).
+ */
+export function subtractFromPolygon(
+  shape: PolygonShape,
+  eraser: MultiPolygon,
+): PolygonShape[] | null {
+  const subject: ClipPolygon = [
+    toRing(shape.outer),
+    ...shape.holes.map(toRing),
+  ];
+  if (eraser.length === 0 || intersection(subject, eraser).length === 0) {
+    return null;
+  }
+
+  return difference(subject, eraser).map(([outer = [], ...holes]) => ({
+    outer: fromRing(outer),
+    holes: holes.map(fromRing),
+  }));
+}
+
+export function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq),
+        );
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function distanceToPolyline(p: Point2D, line: Point2D[]): number {
+  if (line.length === 1) {
+    return Math.hypot(p.x - line[0]!.x, p.y - line[0]!.y);
+  }
+  let min = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    min = Math.min(min, distanceToSegment(p, line[i - 1]!, line[i]!));
+  }
+  return min;
+}
+
+// Inserts points so that no segment is longer than `step`
+function densify(points: Point2D[], step: number): Point2D[] {
+  const result: Point2D[] = [];
+  points.forEach((pt, i) => {
+    const prev = points[i - 1];
+    if (prev) {
+      const count = Math.floor(Math.hypot(pt.x - prev.x, pt.y - prev.y) / step);
+      for (let k = 1; k < count; k++) {
+        result.push({
+          x: prev.x + ((pt.x - prev.x) * k) / count,
+          y: prev.y + ((pt.y - prev.y) * k) / count,
+        });
+      }
+    }
+    result.push(pt);
+  });
+  return result;
+}
+
+/**
+ * Removes the parts of a stroke that an eraser trail paints over. The stroke
+ * is its centre line painted `strokeRadius` wide on each side, the eraser its
+ * trail painted `eraserRadius` wide, so a centre point is erased when it lies
+ * within the sum of both radii of the trail. The round ends of the remaining
+ * runs then stop at the edge of the erased area. Returns null when nothing is
+ * removed, otherwise the remaining runs of at least two points.
+ */
+export function splitPolylineOutside(
+  points: Point2D[],
+  trail: Point2D[],
+  eraserRadius: number,
+  strokeRadius: number,
+): Point2D[][] | null {
+  if (trail.length === 0) return null;
+  const distance = eraserRadius + strokeRadius;
+  // Sampled finely enough for the cut to land where the eraser edge is,
+  // whichever of the two is thinner
+  const dense = densify(
+    points,
+    Math.max(Math.min(eraserRadius, strokeRadius) / 4, 0.5),
+  );
+  const runs: Point2D[][] = [[]];
+  let erased = false;
+
+  dense.forEach((pt) => {
+    if (distanceToPolyline(pt, trail) <= distance) {
+      erased = true;
+      if (runs[runs.length - 1]!.length > 0) runs.push([]);
+    } else {
+      runs[runs.length - 1]!.push(pt);
+    }
+  });
+
+  return erased ? runs.filter((run) => run.length >= 2) : null;
+}
+
+/**
+ * COCO polygons cannot describe holes, so each hole is joined to the outer
+ * ring through a zero-width cut at the closest pair of vertices. The result
+ * is a single ring that fills exactly the holed area.
+ */
+export function bridgeHoles(shape: PolygonShape): Point2D[] {
+  let ring = [...shape.outer];
+
+  shape.holes.forEach((hole) => {
+    let best = { distance: Infinity, ringIndex: 0, holeIndex: 0 };
+    ring.forEach((rp, ringIndex) => {
+      hole.forEach((hp, holeIndex) => {
+        const distance = Math.hypot(rp.x - hp.x, rp.y - hp.y);
+        if (distance < best.distance) {
+          best = { distance, ringIndex, holeIndex };
+        }
+      });
+    });
+
+    const entry = ring[best.ringIndex]!;
+    const rotatedHole = [
+      ...hole.slice(best.holeIndex),
+      ...hole.slice(0, best.holeIndex + 1),
+    ];
+    ring = [
+      ...ring.slice(0, best.ringIndex + 1),
+      ...rotatedHole,
+      entry,
+      ...ring.slice(best.ringIndex + 1),
+    ];
+  });
+
+  return ring;
+}
@@ -0,0 +1,53 @@
+import {
+  classRegistry,
+  FabricObject,
+  type FabricObjectProps,
+  Polygon,
+  type TOptions,
+  type XY,
+} from "fabric";
+// Registers the annotation properties this class extends below
+import "~/utils/annotationObjects";
+
+type HoledPolygonOptions = TOptions<FabricObjectProps> & {
+  holes?: XY[][];
+};
+
+/**
+ * Polygon with optional inner rings, drawn with an even-odd fill so the holes
+ * stay transparent. Holes live in the same coordinate plane as `points`, so
+ * they follow the outer ring when the shape is moved or transformed.
+ */
+export class HoledPolygon extends Polygon {
+  static type = "HoledPolygon";
+
+  static cacheProperties = [...Polygon.cacheProperties, "holes"];
+
+  static customProperties = [...FabricObject.customProperties, "holes"];
+
+  declare holes: XY[][];
+
+  constructor(points: XY[] = [], options: HoledPolygonOptions = {}) {
+    super(points, { fillRule: "evenodd", ...options });
+    this.holes = options.holes ?? [];
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const { x, y } = this.pathOffset;
+    const rings = [this.points, ...this.holes].filter(
+      (ring) => ring.length > 0,
+    );
+    if (rings.length === 0) return;
+
+    ctx.beginPath();
+    rings.forEach((ring) => {
+      ctx.moveTo((ring[0]?.x ?? 0) - x, (ring[0]?.y ?? 0) - y);
+      ring.forEach((point) => ctx.lineTo(point.x - x, point.y - y));
+      ctx.closePath();
+    });
+    this._renderPaintInOrder(ctx);
+  }
+}
+
+// Needed so restored projects can bring holed polygons back to life
+classRegistry.setClass(HoledPolygon);
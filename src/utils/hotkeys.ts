@@ -0,0 +1,165 @@
+/**
+ * Keyboard shortcuts of the actions that can be rebound. Bindings are kept in
+ * localStorage, so every user of a browser has their own. A binding is
+ * written like "Ctrl+Shift+Z", where Ctrl also stands for Cmd on macOS.
+ */
+
+export type HotkeyAction =
+  | "tool.brush"
+  | "tool.polygon"
+  | "tool.hole"
+  | "tool.bbox"
+  | "tool.eraser"
+  | "tool.edit"
+  | "undo"
+  | "redo"
+  | "toggleAnnotations"
+  | "exportCOCO"
+  | "deleteSelection"
+  | "finishPolygon"
+  | "cancelPolygon"
+  | "brushSmaller"
+  | "brushLarger"
+  | "commandPalette";
+
+// Every action may have several bindings
+export type HotkeyBindings = Record<HotkeyAction, string[]>;
+
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  "tool.brush": "Brush tool",
+  "tool.polygon": "Polygon tool",
+  "tool.hole": "Cut hole tool",
+  "tool.bbox": "Bounding box tool",
+  "tool.eraser": "Eraser tool",
+  "tool.edit": "Edit shapes tool",
+  undo: "Undo",
+  redo: "Redo",
+  toggleAnnotations: "Toggle annotations view",
+  exportCOCO: "Export COCO",
+  deleteSelection: "Delete selected annotations",
+  finishPolygon: "Close the polygon",
+  cancelPolygon: "Cancel the polygon",
+  brushSmaller: "Smaller brush",
+  brushLarger: "Larger brush",
+  commandPalette: "Command palette",
+};
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  "tool.brush": ["B"],
+  "tool.polygon": ["P"],
+  "tool.hole": ["H"],
+  "tool.bbox": ["R"],
+  "tool.eraser": ["E"],
+  "tool.edit": ["V"],
+  undo: ["Ctrl+Z"],
+  redo: ["Ctrl+Shift+Z", "Ctrl+Y"],
+  toggleAnnotations: ["L"],
+  exportCOCO: ["Ctrl+Shift+E"],
+  deleteSelection: ["Delete", "Backspace"],
+  finishPolygon: ["Enter"],
+  cancelPolygon: ["Escape"],
+  brushSmaller: ["["],
+  brushLarger: ["]"],
+  commandPalette: ["Ctrl+K"],
+};
+
+const STORAGE_KEY = "hotkeys";
+const MODIFIER_KEYS = ["Control", "Shift", "Alt", "Meta"];
+
+/**
+ * The binding a key press matches, or null for a lone modifier. Shift is
+ * only written for letters and named keys: for other characters it is
+ * already part of the character ("{" rather than "Shift+[").
+ */
+export function eventToBinding(event: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const key = event.key === " " ? "Space" : event.key;
+  const isCharacter = key.length === 1;
+  const isLetter = isCharacter && key.toLowerCase() !== key.toUpperCase();
+
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push("Ctrl");
+  if (event.altKey) parts.push("Alt");
+  if (event.shiftKey && (isLetter || !isCharacter)) parts.push("Shift");
+  parts.push(isCharacter ? key.toUpperCase() : key);
+  return parts.join("+");
+}
+
+// Keys typed into a text field belong to the field, not to the shortcuts
+export function isTextField(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.tagName === "INPUT" ||
+      target.tagName === "TEXTAREA" ||
+      target.tagName === "SELECT" ||
+      target.isContentEditable)
+  );
+}
+
+/**
+ * Whether a key press belongs to where it happened rather than to the
+ * shortcuts: typing in a text field, any key in an open dialog, and Enter or
+ * Space on a focused button, link or form control.
+ */
+export function keyBelongsToTarget(event: {
+  key: string;
+  target: EventTarget | null;
+}) {
+  const { target } = event;
+  if (isTextField(target)) return true;
+  if (!(target instanceof Element)) return false;
+  if (target.closest("[role=dialog]")) return true;
+  return (
+    (event.key === "Enter" || event.key === " ") &&
+    target.closest(
+      "button, a, input, select, [role=button], [role=checkbox]",
+    ) !== null
+  );
+}
+
+// Stored bindings over the defaults, so that new actions get theirs
+export function loadHotkeys(): HotkeyBindings {
+  if (typeof window === "undefined") return DEFAULT_HOTKEYS;
+  try {
+    const saved = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "{}",
+    ) as Partial<HotkeyBindings>;
+    const bindings = { ...DEFAULT_HOTKEYS };
+    (Object.keys(DEFAULT_HOTKEYS) as HotkeyAction[]).forEach((action) => {
+      const value = saved[action];
+      if (
+        Array.isArray(value) &&
+        value.every((binding) => typeof binding === "string")
+      ) {
+        bindings[action] = value;
+      }
+    });
+    return bindings;
+  } catch {
+    return DEFAULT_HOTKEYS;
+  }
+}
+
+export function saveHotkeys(bindings: HotkeyBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
+
+export function findHotkeyAction(
+  bindings: HotkeyBindings,
+  binding: string,
+): HotkeyAction | undefined {
+  return (Object.keys(bindings) as HotkeyAction[]).find((action) =>
+    bindings[action].includes(binding),
+  );
+}
+
+// "Ctrl+K / Ctrl+Y" for display
+export function formatBindings(bindings: string[]): string {
+  return bindings.join(" / ");
+}
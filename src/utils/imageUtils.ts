@@ -0,0 +1,58 @@
+import type { ProjectImage } from "~/Types/ProjectImage";
+import { readCaptureDate } from "~/utils/exifUtils";
+import { generateRandomId } from "~/utils/uuid";
+
+/**
+ * Reads an uploaded image file into a project image, measuring its native
+ * resolution up front so that images never opened on the canvas can still be
+ * described in exports.
+ */
+export async function loadProjectImage(file: File): Promise<ProjectImage> {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+    img.src = url;
+  });
+
+  return {
+    id: generateRandomId(),
+    name: file.name,
+    url,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    capturedAt: await readCaptureDate(file),
+  };
+}
+
+// "photo.jpg" -> "photo.txt", for the per-image files of an export
+export function replaceExtension(fileName: string, extension: string): string {
+  return `${fileName.replace(/\.[^./]*$/, "")}.${extension}`;
+}
+
+// Orders frames the way a file browser would ("frame2" before "frame10")
+export function sortImageFiles(files: File[]): File[] {
+  return [...files]
+    .filter((file) => file.type.startsWith("image/"))
+    .sort((a, b) =>
+      (a.webkitRelativePath || a.name).localeCompare(
+        b.webkitRelativePath || b.name,
+        undefined,
+        { numeric: true },
+      ),
+    );
+}
+
+// Reads an image (e.g. from its object URL) as a base64 data URL for upload
+export async function imageUrlToDataURL(url: string): Promise<string> {
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Could not read the image"));
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,158 @@
+import type { Class } from "~/Types/Class";
+import {
+  type AnnotatedImage,
+  type Annotation,
+  buildAnnotationsData,
+} from "~/utils/COCOUtils";
+import { hexToRgb } from "~/utils/colors";
+import { replaceExtension } from "~/utils/imageUtils";
+import { encodePNG } from "~/utils/pngUtils";
+import { rasteriseAnnotation, regionAround } from "~/utils/rasterUtils";
+import type { ZipEntry } from "~/utils/zipUtils";
+
+/**
+ * Semantic segmentation masks at the original image resolution. In the class
+ * mask of an image every pixel holds 0 for background or the position of
+ * its class in the class list plus one; where annotations overlap, the one
+ * on top wins.
+ */
+
+export type MaskOptions = {
+  // One black and white PNG per annotation, overlaps included
+  instances: boolean;
+  // Class colours drawn over the image
+  preview: boolean;
+};
+
+const PREVIEW_OPACITY = 0.5;
+
+/**
+ * Calls `paint` with the index of every image pixel covered by the
+ * annotation.
+ */
+function rasterise(
+  annotated: AnnotatedImage,
+  annotation: Annotation,
+  paint: (pixel: number) => void,
+) {
+  const { image, background } = annotated;
+  const [data] = buildAnnotationsData([annotation], {}, image.id, background);
+  if (!data) return;
+  const region = regionAround(data.bbox, background);
+  const mask = rasteriseAnnotation(annotation, background, region);
+  mask.forEach((covered, i) => {
+    if (!covered) return;
+    const row = Math.floor(i / region.width);
+    const col = i % region.width;
+    paint((region.top + row) * image.width + region.left + col);
+  });
+}
+
+function canvasToPNG(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode the PNG")),
+      "image/png",
+    ),
+  );
+}
+
+// Class colours over the image itself
+async function buildPreview(
+  annotated: AnnotatedImage,
+  classMask: Uint8Array,
+  palette: [number, number, number][],
+): Promise<Uint8Array> {
+  const { width, height } = annotated.image;
+  const overlay = document.createElement("canvas");
+  overlay.width = width;
+  overlay.height = height;
+  const overlayCtx = overlay.getContext("2d")!;
+  const colours = overlayCtx.createImageData(width, height);
+  classMask.forEach((value, pixel) => {
+    if (value === 0) return;
+    const [r, g, b] = palette[value] ?? [0, 0, 0];
+    colours.data.set([r, g, b, 255], pixel * 4);
+  });
+  overlayCtx.putImageData(colours, 0, 0);
+
+  const preview = document.createElement("canvas");
+  preview.width = width;
+  preview.height = height;
+  const ctx = preview.getContext("2d")!;
+  ctx.drawImage(annotated.background.getElement(), 0, 0, width, height);
+  ctx.globalAlpha = PREVIEW_OPACITY;
+  ctx.drawImage(overlay, 0, 0);
+  return new Uint8Array(await (await canvasToPNG(preview)).arrayBuffer());
+}
+
+/**
+ * Mask files of every image, ready to be zipped: `masks/<image>.png`,
+ * `labels.txt` naming the pixel values, and optionally
+ * `instances/<image>/<annotation id>.png` and `previews/<image>.png`.
+ * Annotations without a class are left out; `skipped` counts them.
+ */
+export async function buildMaskFiles(
+  annotatedImages: AnnotatedImage[],
+  classes: Class[],
+  options: MaskOptions,
+): Promise<{ files: ZipEntry[]; skipped: number }> {
+  if (classes.length > 255) {
+    throw new Error("Masks can hold at most 255 classes");
+  }
+  const palette: [number, number, number][] = [
+    [0, 0, 0],
+    ...classes.map((cls) => hexToRgb(cls.color)),
+  ];
+  const files: ZipEntry[] = [
+    {
+      name: "labels.txt",
+      data: ["0 background", ...classes.map((cls, i) => `${i + 1} ${cls.name}`)]
+        .map((line) => `${line}\n`)
+        .join(""),
+    },
+  ];
+  let skipped = 0;
+
+  for (const annotated of annotatedImages) {
+    const { width, height, name } = annotated.image;
+    const classMask = new Uint8Array(width * height);
+
+    // List order is drawing order, so later annotations overwrite earlier ones
+    for (const annotation of annotated.annotations) {
+      const value =
+        classes.findIndex((cls) => cls.id === annotation.class?.id) + 1;
+      if (value === 0) {
+        skipped++;
+        continue;
+      }
+      const instanceMask = options.instances
+        ? new Uint8Array(width * height)
+        : null;
+      rasterise(annotated, annotation, (pixel) => {
+        classMask[pixel] = value;
+        if (instanceMask) instanceMask[pixel] = 255;
+      });
+      if (instanceMask) {
+        files.push({
+          name: `instances/${name}/${annotation.id}.png`,
+          data: await encodePNG({ width, height, pixels: instanceMask }),
+        });
+      }
+    }
+
+    files.push({
+      name: `masks/${replaceExtension(name, "png")}`,
+      data: await encodePNG({ width, height, pixels: classMask, palette }),
+    });
+    if (options.preview) {
+      files.push({
+        name: `previews/${replaceExtension(name, "png")}`,
+        data: await buildPreview(annotated, classMask, palette),
+      });
+    }
+  }
+
+  return { files, skipped };
+}
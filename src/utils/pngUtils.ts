@@ -0,0 +1,76 @@
+import { crc32 } from "~/utils/zipUtils";
+
+/**
+ * Encoder for single-channel 8-bit PNGs, which canvas.toBlob cannot write:
+ * greyscale, or indexed when a palette is given. Pixel values are stored
+ * as they are, so a mask keeps its class indices exactly.
+ */
+
+export type PNGImage = {
+  width: number;
+  height: number;
+  // One byte per pixel, row by row
+  pixels: Uint8Array;
+  // RGB colours of the pixel values 0, 1, 2...; omit for greyscale
+  palette?: [number, number, number][];
+};
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(new TextEncoder().encode(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+// zlib stream, as IDAT expects
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodePNG({
+  width,
+  height,
+  pixels,
+  palette,
+}: PNGImage): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = palette ? 3 : 0; // indexed or greyscale
+
+  // Every row starts with its filter type, 0 (none)
+  const rows = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rows.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const chunks = [chunk("IHDR", header)];
+  if (palette) {
+    chunks.push(chunk("PLTE", new Uint8Array(palette.flat())));
+  }
+  chunks.push(
+    chunk("IDAT", await deflate(rows)),
+    chunk("IEND", new Uint8Array()),
+  );
+
+  const png = new Uint8Array(
+    SIGNATURE.length + chunks.reduce((size, part) => size + part.length, 0),
+  );
+  png.set(SIGNATURE);
+  let offset = SIGNATURE.length;
+  chunks.forEach((part) => {
+    png.set(part, offset);
+    offset += part.length;
+  });
+  return png;
+}
@@ -0,0 +1,137 @@
+import {
+  type FabricImage,
+  type Path,
+  type Polygon,
+  type Rect,
+  type TMat2D,
+  util,
+} from "fabric";
+import type { Annotation } from "~/utils/COCOUtils";
+import { HoledPolygon } from "~/utils/holedPolygon";
+
+/**
+ * Rasterises annotations at the native resolution of their image. Pixels
+ * are in or out, without anti-aliasing: a pixel is in when the shape covers
+ * at least half of it.
+ */
+
+// Area of an image, in whole pixels
+export type PixelRegion = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+// Reused between calls; resizing it also clears it
+let scratch: HTMLCanvasElement | null = null;
+
+// Maps scene coordinates to the native pixels of the background image
+function sceneToImage(background: FabricImage): TMat2D {
+  return util.multiplyTransformMatrices(
+    [1, 0, 0, 1, background.width / 2, background.height / 2],
+    util.invertTransform(background.calcTransformMatrix()),
+  );
+}
+
+// Fills the shape of an annotation (or strokes it, for brush strokes) in
+// opaque black
+function drawAnnotation(
+  ctx: CanvasRenderingContext2D,
+  { type, object }: Pick<Annotation, "type" | "object">,
+  toImage: TMat2D,
+) {
+  ctx.fillStyle = "black";
+  ctx.strokeStyle = "black";
+
+  if (type === "bbox") {
+    const rect = object as Rect;
+    ctx.setTransform(
+      ...util.multiplyTransformMatrices(toImage, rect.calcTransformMatrix()),
+    );
+    ctx.fillRect(-rect.width / 2, -rect.height / 2, rect.width, rect.height);
+    return;
+  }
+
+  // Polygon points and path commands are relative to the path offset
+  const shape = object as Polygon | Path;
+  ctx.setTransform(
+    ...util.multiplyTransformMatrices(
+      util.multiplyTransformMatrices(toImage, shape.calcTransformMatrix()),
+      [1, 0, 0, 1, -shape.pathOffset.x, -shape.pathOffset.y],
+    ),
+  );
+
+  if (type === "path") {
+    const path = object as Path;
+    ctx.lineWidth = path.strokeWidth;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.stroke(new Path2D(util.joinPath(path.path)));
+    return;
+  }
+
+  const polygon = object as Polygon;
+  const outline = new Path2D();
+  const rings = [
+    polygon.points,
+    ...(polygon instanceof HoledPolygon ? polygon.holes : []),
+  ];
+  rings.forEach((ring) => {
+    ring.forEach((pt, i) =>
+      i === 0 ? outline.moveTo(pt.x, pt.y) : outline.lineTo(pt.x, pt.y),
+    );
+    outline.closePath();
+  });
+  ctx.fill(outline, "evenodd");
+}
+
+// Smallest region holding the box [x, y, width, height], plus a pixel of
+// margin for edges that round outwards, within the image
+export function regionAround(
+  [x, y, width, height]: [number, number, number, number],
+  background: FabricImage,
+): PixelRegion {
+  const left = Math.max(Math.floor(x) - 1, 0);
+  const top = Math.max(Math.floor(y) - 1, 0);
+  const right = Math.min(Math.ceil(x + width) + 1, background.width);
+  const bottom = Math.min(Math.ceil(y + height) + 1, background.height);
+  return {
+    left,
+    top,
+    width: Math.max(right - left, 0),
+    height: Math.max(bottom - top, 0),
+  };
+}
+
+/**
+ * Pixels of `region` covered by the annotation, row by row: 1 when covered,
+ * 0 otherwise. Only the region is drawn, so it should hold the whole shape.
+ */
+export function rasteriseAnnotation(
+  annotation: Pick<Annotation, "type" | "object">,
+  background: FabricImage,
+  region: PixelRegion,
+): Uint8Array {
+  const mask = new Uint8Array(region.width * region.height);
+  if (mask.length === 0) return mask;
+
+  scratch ??= document.createElement("canvas");
+  scratch.width = region.width;
+  scratch.height = region.height;
+  const ctx = scratch.getContext("2d", { willReadFrequently: true })!;
+  drawAnnotation(
+    ctx,
+    annotation,
+    util.multiplyTransformMatrices(
+      [1, 0, 0, 1, -region.left, -region.top],
+      sceneToImage(background),
+    ),
+  );
+
+  const { data } = ctx.getImageData(0, 0, region.width, region.height);
+  mask.forEach((_, pixel) => {
+    mask[pixel] = (data[pixel * 4 + 3] ?? 0) >= 128 ? 1 : 0;
+  });
+  return mask;
+}
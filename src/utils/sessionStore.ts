@@ -0,0 +1,187 @@
+import type { ProjectImage } from "~/Types/ProjectImage";
+import type { SavedSession } from "~/Types/SavedSession";
+
+const DB_NAME = "image-annotating-tool";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const IMAGES_STORE = "images";
+// Older sessions are removed once there are more than this
+const MAX_SESSIONS = 10;
+// Share of the browser storage quota that saved sessions may fill
+const QUOTA_SHARE = 0.8;
+
+type StoredImage = {
+  sessionId: number;
+  imageId: number;
+  blob: Blob;
+};
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+      // Image pixels are written once per session, not on every autosave
+      const images = db.createObjectStore(IMAGES_STORE, {
+        keyPath: ["sessionId", "imageId"],
+      });
+      images.createIndex("sessionId", "sessionId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+// Runs `work` in a single transaction over both stores and resolves with its
+// result once the transaction has committed. `work` must only wait on
+// IndexedDB requests, or the transaction closes early.
+async function withTransaction<T>(
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      const fail = () =>
+        reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+      transaction.onerror = fail;
+      transaction.onabort = fail;
+    });
+    const result = await work(transaction);
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+// Label shown in the session list
+export function describeSession(images: ProjectImage[]): string {
+  const [first] = images;
+  if (!first) return "Empty project";
+  return images.length > 1
+    ? `${first.name} (+${images.length - 1} more)`
+    : first.name;
+}
+
+// Newest first
+export async function listSessions(): Promise<SavedSession[]> {
+  const sessions = await withTransaction("readonly", (transaction) =>
+    promisifyRequest(
+      transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<
+        SavedSession[]
+      >,
+    ),
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Stores the session record, plus the pixels of any project image that the
+ * session does not hold yet.
+ */
+export async function saveSession(
+  session: SavedSession,
+  images: ProjectImage[],
+): Promise<void> {
+  const storedIds = await withTransaction("readonly", (transaction) =>
+    promisifyRequest(
+      transaction
+        .objectStore(IMAGES_STORE)
+        .index("sessionId")
+        .getAllKeys(session.id),
+    ),
+  );
+  const stored = new Set(storedIds.map((key) => (key as [number, number])[1]));
+
+  // Blobs are read before the write transaction, which cannot wait on fetch
+  const newImages: StoredImage[] = await Promise.all(
+    images
+      .filter((image) => !stored.has(image.id))
+      .map(async (image) => ({
+        sessionId: session.id,
+        imageId: image.id,
+        blob: await (await fetch(image.url)).blob(),
+      })),
+  );
+
+  await withTransaction("readwrite", async (transaction) => {
+    const imageStore = transaction.objectStore(IMAGES_STORE);
+    await Promise.all(
+      newImages.map((image) => promisifyRequest(imageStore.put(image))),
+    );
+    await promisifyRequest(
+      transaction.objectStore(SESSIONS_STORE).put(session),
+    );
+  });
+}
+
+// Rebuilds the project images of a session, in project order
+export async function loadSessionImages(
+  session: SavedSession,
+): Promise<ProjectImage[]> {
+  const stored = await withTransaction("readonly", (transaction) =>
+    promisifyRequest(
+      transaction
+        .objectStore(IMAGES_STORE)
+        .index("sessionId")
+        .getAll(session.id) as IDBRequest<StoredImage[]>,
+    ),
+  );
+  const blobs = new Map(stored.map((image) => [image.imageId, image.blob]));
+
+  return session.images.flatMap((image) => {
+    const blob = blobs.get(image.id);
+    return blob ? [{ ...image, url: URL.createObjectURL(blob) }] : [];
+  });
+}
+
+export async function deleteSession(sessionId: number): Promise<void> {
+  await withTransaction("readwrite", async (transaction) => {
+    const imageStore = transaction.objectStore(IMAGES_STORE);
+    const keys = await promisifyRequest(
+      imageStore.index("sessionId").getAllKeys(sessionId),
+    );
+    await Promise.all(
+      keys.map((key) => promisifyRequest(imageStore.delete(key))),
+    );
+    await promisifyRequest(
+      transaction.objectStore(SESSIONS_STORE).delete(sessionId),
+    );
+  });
+}
+
+async function isOverQuota(): Promise<boolean> {
+  if (!navigator.storage?.estimate) return false;
+  const { usage = 0, quota = Infinity } = await navigator.storage.estimate();
+  return usage > quota * QUOTA_SHARE;
+}
+
+/**
+ * Deletes the oldest sessions, never `keepId`, until there are at most
+ * MAX_SESSIONS and the stored data fits within the quota share.
+ */
+export async function enforceStorageQuota(keepId: number): Promise<void> {
+  const candidates = (await listSessions())
+    .filter((session) => session.id !== keepId)
+    .reverse();
+  let remaining = candidates.length + 1;
+
+  for (const session of candidates) {
+    if (remaining <= MAX_SESSIONS && !(await isOverQuota())) break;
+    await deleteSession(session.id);
+    remaining--;
+  }
+}